@@ -0,0 +1,222 @@
+// @vitest-environment jsdom
+/**
+ * Tests for the navigator store and the framework adapters.
+ * React components render into jsdom; Vue runs inside an effect scope.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { effectScope, nextTick } from 'vue';
+import { effect } from '@preact/signals-core';
+import {
+  createNavigator,
+  getNavigatorStore,
+  type NavItem,
+  type NavigatorSnapshot,
+} from './index.js';
+import { useNavigator, useNavigatorState } from './react.js';
+import type { NavigatorBinding } from './react.js';
+import { navigatorStore } from './svelte.js';
+import { useNavigatorState as useVueNavigator } from './vue.js';
+import { navigatorSignals } from './signals.js';
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+const items: NavItem[] = [
+  { slug: 'intro', children: ['welcome', 'setup'] },
+  'usage',
+];
+
+describe('getNavigatorStore', () => {
+  it('returns one store per navigator', () => {
+    const nav = createNavigator({ items });
+    expect(getNavigatorStore(nav)).toBe(getNavigatorStore(nav));
+    expect(getNavigatorStore(nav)).not.toBe(
+      getNavigatorStore(createNavigator({ items }))
+    );
+  });
+
+  it('keeps the snapshot until the state changes', () => {
+    const nav = createNavigator({ items });
+    const store = getNavigatorStore(nav);
+    const first = store.getSnapshot();
+
+    expect(first).toMatchObject({ current: 'intro', currentIndex: 0 });
+    expect(store.getSnapshot()).toBe(first);
+
+    nav.goTo(0);
+    expect(store.getSnapshot()).toBe(first);
+
+    nav.next();
+    expect(store.getSnapshot()).not.toBe(first);
+    expect(store.getSnapshot().current).toBe('welcome');
+  });
+
+  it('notifies subscribers on moves, expansion and selection', () => {
+    const nav = createNavigator({ items });
+    const store = getNavigatorStore(nav);
+    let calls = 0;
+    const off = store.subscribe(() => calls++);
+
+    nav.next();
+    nav.collapse('intro');
+    nav.select('usage');
+    expect(calls).toBe(3);
+    expect(store.getSnapshot()).toMatchObject({
+      expanded: [],
+      selection: ['usage'],
+    });
+
+    off();
+    nav.next();
+    expect(calls).toBe(3);
+  });
+
+  it('keeps unchanged lists by reference', () => {
+    const nav = createNavigator({ items });
+    const store = getNavigatorStore(nav);
+    const { expanded } = store.getSnapshot();
+
+    nav.next();
+    expect(store.getSnapshot().expanded).toBe(expanded);
+  });
+});
+
+describe('react', () => {
+  let container: HTMLElement;
+  let root: ReturnType<typeof createRoot>;
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  function render(element: ReturnType<typeof createElement>) {
+    container = document.createElement('div');
+    document.body.append(container);
+    root = createRoot(container);
+    act(() => root.render(element));
+  }
+
+  it('useNavigator re-renders on navigation', () => {
+    let binding!: NavigatorBinding;
+    let renders = 0;
+    function Sidebar() {
+      binding = useNavigator({ items });
+      renders++;
+      return createElement('p', null, binding.current);
+    }
+
+    render(createElement(Sidebar));
+    expect(container.textContent).toBe('intro');
+
+    act(() => binding.next());
+    expect(container.textContent).toBe('welcome');
+    expect(binding.currentIndex).toBe(1);
+
+    // Same navigator across renders
+    const { navigator } = binding;
+    act(() => binding.goToSlug('usage'));
+    expect(binding.navigator).toBe(navigator);
+    expect(container.textContent).toBe('usage');
+
+    // No-op moves don't re-render
+    const before = renders;
+    act(() => binding.goToSlug('usage'));
+    expect(renders).toBe(before);
+  });
+
+  it('useNavigatorState follows an external navigator', () => {
+    const nav = createNavigator({ items });
+    function Current() {
+      const { current } = useNavigatorState(nav);
+      return createElement('p', null, current);
+    }
+
+    render(createElement(Current));
+    act(() => nav.goToSlug('usage'));
+    expect(container.textContent).toBe('usage');
+  });
+});
+
+describe('svelte', () => {
+  it('follows the store contract', () => {
+    const nav = createNavigator({ items });
+    const store = navigatorStore(nav);
+    const seen: (string | null)[] = [];
+
+    const off = store.subscribe((value) => seen.push(value.current));
+    expect(seen).toEqual(['intro']);
+
+    store.next();
+    store.nextSibling();
+    expect(seen).toEqual(['intro', 'welcome', 'setup']);
+
+    off();
+    store.next();
+    expect(seen).toHaveLength(3);
+    expect(store.navigator).toBe(nav);
+  });
+});
+
+describe('vue', () => {
+  it('tracks state in a ref until the scope is disposed', async () => {
+    const nav = createNavigator({ items });
+    const scope = effectScope();
+    const composable = scope.run(() => useVueNavigator(nav))!;
+
+    expect(composable.state.value.current).toBe('intro');
+    composable.next();
+    await nextTick();
+    expect(composable.state.value).toMatchObject({
+      current: 'welcome',
+      currentIndex: 1,
+    });
+
+    scope.stop();
+    nav.next();
+    expect(composable.state.value.current).toBe('welcome');
+  });
+});
+
+describe('signals', () => {
+  it('exposes snapshot fields as signals', () => {
+    const nav = createNavigator({ items });
+    const signals = navigatorSignals(nav);
+    const seen: (string | null)[] = [];
+    const stop = effect(() => {
+      seen.push(signals.current.value);
+    });
+
+    signals.next();
+    expect(seen).toEqual(['intro', 'welcome']);
+    expect(signals.currentIndex.value).toBe(1);
+
+    signals.dispose();
+    nav.next();
+    expect(seen).toEqual(['intro', 'welcome']);
+    stop();
+  });
+
+  it('only notifies a field when its value changes', () => {
+    const nav = createNavigator({ items });
+    const signals = navigatorSignals(nav);
+    const expanded: NavigatorSnapshot['expanded'][] = [];
+    const stop = effect(() => {
+      expanded.push(signals.expanded.value);
+    });
+
+    signals.next();
+    signals.next();
+    expect(expanded).toHaveLength(1);
+
+    nav.collapse('intro');
+    expect(expanded).toEqual([['intro'], []]);
+    stop();
+    signals.dispose();
+  });
+});
@@ -0,0 +1,303 @@
+// @vitest-environment jsdom
+/**
+ * Tests for the ARIA tree/listbox binding.
+ * Renders plain markup into jsdom and drives it with DOM events.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createNavigator, type NavItem } from './index.js';
+import { bindAria } from './aria.js';
+
+const items: NavItem[] = [
+  'intro',
+  { slug: 'guides', children: ['install', 'config'] },
+  { slug: 'api', children: ['client'] },
+];
+
+function render(slugs: string[]) {
+  const container = document.createElement('ul');
+  for (const slug of slugs) {
+    const li = document.createElement('li');
+    li.dataset.slug = slug;
+    li.textContent = slug;
+    container.append(li);
+  }
+  document.body.append(container);
+  return container;
+}
+
+const allSlugs = ['intro', 'guides', 'install', 'config', 'api', 'client'];
+
+function element(container: HTMLElement, slug: string) {
+  return container.querySelector<HTMLElement>(`[data-slug="${slug}"]`)!;
+}
+
+function press(target: HTMLElement, key: string, init: KeyboardEventInit = {}) {
+  const event = new KeyboardEvent('keydown', {
+    key,
+    bubbles: true,
+    cancelable: true,
+    ...init,
+  });
+  target.dispatchEvent(event);
+  return event;
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('bindAria', () => {
+  it('sets tree roles, levels and positions', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container);
+
+    expect(container.getAttribute('role')).toBe('tree');
+    const install = element(container, 'install');
+    expect(install.getAttribute('role')).toBe('treeitem');
+    expect(install.getAttribute('aria-level')).toBe('2');
+    expect(install.getAttribute('aria-setsize')).toBe('2');
+    expect(install.getAttribute('aria-posinset')).toBe('1');
+    expect(install.hasAttribute('aria-expanded')).toBe(false);
+
+    const api = element(container, 'api');
+    expect(api.getAttribute('aria-level')).toBe('1');
+    expect(api.getAttribute('aria-setsize')).toBe('3');
+    expect(api.getAttribute('aria-posinset')).toBe('3');
+    expect(api.getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('keeps a roving tabindex and aria-selected on the current item', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container);
+
+    const tabindexes = () =>
+      allSlugs.map((slug) => element(container, slug).tabIndex);
+    expect(tabindexes()).toEqual([0, -1, -1, -1, -1, -1]);
+
+    nav.goToSlug('config');
+    expect(tabindexes()).toEqual([-1, -1, -1, 0, -1, -1]);
+    expect(element(container, 'config').getAttribute('aria-selected')).toBe(
+      'true'
+    );
+    expect(element(container, 'intro').getAttribute('aria-selected')).toBe(
+      'false'
+    );
+
+    nav.collapse('api');
+    expect(element(container, 'api').getAttribute('aria-expanded')).toBe(
+      'false'
+    );
+  });
+
+  it('updates only the previous and new current items on cursor moves', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container);
+    const spies = allSlugs.map((slug) =>
+      vi.spyOn(element(container, slug), 'setAttribute')
+    );
+    const touched = () =>
+      allSlugs.filter((_, i) => spies[i].mock.calls.length > 0);
+
+    nav.goToSlug('config');
+    expect(touched()).toEqual(['intro', 'config']);
+    expect(element(container, 'intro').getAttribute('aria-selected')).toBe(
+      'false'
+    );
+
+    // Expansion changes still update every item
+    spies.forEach((spy) => spy.mockClear());
+    nav.collapse('api');
+    expect(touched()).toEqual(allSlugs);
+  });
+
+  it('matches elements by path as well as slug', () => {
+    const nav = createNavigator({
+      items: [
+        { slug: 'a', children: ['overview'] },
+        { slug: 'b', children: ['overview'] },
+      ],
+    });
+    const container = render(['a', 'a/overview', 'b', 'b/overview']);
+    bindAria(nav, container);
+
+    nav.goToPath('b/overview');
+    expect(element(container, 'b/overview').tabIndex).toBe(0);
+    expect(element(container, 'a/overview').tabIndex).toBe(-1);
+  });
+
+  it('moves focus with the cursor while focus is inside', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container);
+
+    nav.next();
+    expect(document.activeElement).toBe(document.body);
+
+    element(container, 'guides').focus();
+    press(element(container, 'guides'), 'ArrowDown');
+    expect(nav.current).toBe('install');
+    expect(document.activeElement).toBe(element(container, 'install'));
+  });
+
+  it('moves focus on every change with focus: always', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container, { focus: 'always' });
+
+    nav.goToSlug('api');
+    expect(document.activeElement).toBe(element(container, 'api'));
+  });
+
+  it('focuses items rendered after the move', async () => {
+    const nav = createNavigator({ items });
+    const container = render(['intro', 'guides']);
+    bindAria(nav, container, { focus: 'always' });
+
+    nav.goToSlug('install');
+    expect(document.activeElement).toBe(document.body);
+
+    const li = document.createElement('li');
+    li.dataset.slug = 'install';
+    container.append(li);
+    await Promise.resolve();
+
+    expect(document.activeElement).toBe(li);
+    expect(li.getAttribute('role')).toBe('treeitem');
+  });
+
+  it('follows the tree view keyboard pattern', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container);
+    const key = (name: string) => press(container, name);
+
+    key('ArrowDown');
+    expect(nav.current).toBe('guides');
+    key('ArrowLeft');
+    expect(nav.isExpanded('guides')).toBe(false);
+    key('ArrowLeft');
+    expect(nav.current).toBe('guides');
+    key('ArrowRight');
+    expect(nav.isExpanded('guides')).toBe(true);
+    expect(nav.current).toBe('guides');
+    key('ArrowRight');
+    expect(nav.current).toBe('install');
+    key('ArrowLeft');
+    expect(nav.current).toBe('guides');
+    key('End');
+    expect(nav.current).toBe('client');
+    key('Home');
+    expect(nav.current).toBe('intro');
+
+    nav.collapseAll();
+    key('*');
+    expect(nav.expanded).toEqual(['guides', 'api']);
+  });
+
+  it('runs typeahead and activates with Enter', () => {
+    const onActivate = vi.fn();
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container, { onActivate });
+
+    const event = press(container, 'c');
+    expect(event.defaultPrevented).toBe(true);
+    expect(nav.current).toBe('config');
+
+    press(container, 'Enter');
+    expect(onActivate).toHaveBeenCalledWith('config');
+
+    expect(press(container, 'x', { ctrlKey: true }).defaultPrevented).toBe(
+      false
+    );
+    expect(press(container, 'Tab').defaultPrevented).toBe(false);
+  });
+
+  it('moves the cursor to focused and clicked items', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container);
+
+    element(container, 'config').focus();
+    expect(nav.current).toBe('config');
+
+    element(container, 'client').click();
+    expect(nav.current).toBe('client');
+  });
+
+  it('mirrors the selection when multiselectable', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    bindAria(nav, container, { multiselectable: true });
+    const selected = () =>
+      allSlugs.filter(
+        (slug) =>
+          element(container, slug).getAttribute('aria-selected') === 'true'
+      );
+
+    expect(container.getAttribute('aria-multiselectable')).toBe('true');
+    expect(selected()).toEqual([]);
+
+    press(container, ' ');
+    expect(selected()).toEqual(['intro']);
+
+    press(container, 'ArrowDown', { shiftKey: true });
+    press(container, 'ArrowDown', { shiftKey: true });
+    expect(selected()).toEqual(['intro', 'guides', 'install']);
+
+    element(container, 'api').click();
+    expect(selected()).toEqual(['api']);
+    element(container, 'client').dispatchEvent(
+      new MouseEvent('click', { bubbles: true, ctrlKey: true })
+    );
+    expect(selected()).toEqual(['api', 'client']);
+  });
+
+  it('toggles with Space once the typeahead window has passed', () => {
+    vi.useFakeTimers();
+    try {
+      const nav = createNavigator({ items });
+      const container = render(allSlugs);
+      bindAria(nav, container, { multiselectable: true });
+
+      press(container, 'g');
+      expect(nav.current).toBe('guides');
+      vi.advanceTimersByTime(700);
+
+      expect(press(container, ' ').defaultPrevented).toBe(true);
+      expect(nav.selection).toEqual(['guides']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('uses listbox roles without tree attributes', () => {
+    const nav = createNavigator({ items: ['a', 'b', 'c'] });
+    const container = render(['a', 'b', 'c']);
+    bindAria(nav, container, { role: 'listbox' });
+
+    expect(container.getAttribute('role')).toBe('listbox');
+    const b = element(container, 'b');
+    expect(b.getAttribute('role')).toBe('option');
+    expect(b.getAttribute('aria-posinset')).toBe('2');
+    expect(b.hasAttribute('aria-level')).toBe(false);
+    expect(press(container, 'ArrowRight').defaultPrevented).toBe(false);
+  });
+
+  it('stops listening on dispose', () => {
+    const nav = createNavigator({ items });
+    const container = render(allSlugs);
+    const aria = bindAria(nav, container);
+    aria.dispose();
+
+    press(container, 'ArrowDown');
+    expect(nav.current).toBe('intro');
+
+    nav.goToSlug('api');
+    expect(element(container, 'api').tabIndex).toBe(-1);
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * DOM binding for the WAI-ARIA tree view and listbox patterns. Keeps
+ * roles, ARIA state and a roving tabindex on your markup in sync with a
+ * navigator, and maps keys, focus and clicks back to navigator moves.
+ * Import from '@bearing-dev/compass/aria'.
+ *
+ * @example
+ * ```typescript
+ * // <ul id="sidebar"><li data-slug="intro">Intro</li>...</ul>
+ * const aria = bindAria(nav, document.getElementById('sidebar')!, {
+ *   label: (slug, data) => data?.title ?? slug,
+ *   onActivate: (slug) => router.push(slug),
+ * });
+ * aria.dispose();
+ * ```
+ */
+
+import { buildTree } from './buildFlatList.js';
+import { isBranch } from './helpers.js';
+import { createTypeahead } from './typeahead.js';
+import type {
+  InternalNode,
+  Navigator,
+  NavCause,
+  NavChangeEvent,
+  NavLabel,
+} from './types.js';
+
+/**
+ * Options for bindAria
+ */
+export interface AriaOptions<T = unknown> {
+  /** 'tree' for hierarchies, 'listbox' for flat lists (default: 'tree') */
+  role?: 'tree' | 'listbox';
+
+  /** Attribute holding each item's path or slug (default: 'data-slug') */
+  attribute?: string;
+
+  /**
+   * Mirror the navigator's selection in aria-selected, with Space, Shift
+   * and Ctrl/Cmd to select (default: false, selection follows focus)
+   */
+  multiselectable?: boolean;
+
+  /**
+   * When to move focus to the new current item: 'within' only while
+   * focus is already inside the container, 'always' on every move
+   * (default: 'within')
+   */
+  focus?: 'within' | 'always';
+
+  /** Jump to items by typing their label (default: true) */
+  typeahead?: boolean;
+
+  /** Text typeahead matches against (default: the slug) */
+  label?: NavLabel<T>;
+
+  /** Called on Enter with the current slug */
+  onActivate?: (slug: string) => void;
+}
+
+/**
+ * Binding returned by bindAria
+ */
+export interface AriaBinding {
+  /**
+   * Re-apply attributes, e.g. after rendering new items. Runs by itself
+   * on navigator updates and, where MutationObserver exists, on DOM
+   * changes inside the container; cursor moves only touch the previous
+   * and new current items.
+   */
+  refresh(): void;
+
+  /** Remove listeners; attributes are left in place */
+  dispose(): void;
+}
+
+/**
+ * Causes that only move the cursor, leaving the tree, expansion and
+ * selection as they were
+ */
+const CURSOR_MOVES = new Set<NavCause>([
+  'next',
+  'prev',
+  'nextSibling',
+  'prevSibling',
+  'parent',
+  'firstChild',
+  'lastChild',
+  'nthChild',
+  'firstSibling',
+  'lastSibling',
+  'nextAtDepth',
+  'prevAtDepth',
+  'nextAtSameDepth',
+  'prevAtSameDepth',
+  'goTo',
+  'goToSlug',
+  'goToPath',
+  'reset',
+  'back',
+  'forward',
+  'jumpToMark',
+]);
+
+/** Nodes by path and by slug (first match, like the navigator) */
+interface NodeIndex<T> {
+  byPath: Map<string, InternalNode<T>>;
+  bySlug: Map<string, InternalNode<T>>;
+  roots: InternalNode<T>[];
+}
+
+/**
+ * Bind a navigator to a container whose item elements carry their path
+ * or slug in `data-slug`. Items may be nested in any markup; elements
+ * for hidden items (collapsed, filtered) can stay rendered or not.
+ *
+ * - Container: role="tree"/"listbox", aria-multiselectable
+ * - Items: role="treeitem"/"option", aria-level, aria-setsize,
+ *   aria-posinset, aria-expanded (branches), aria-selected, tabindex
+ *   0 on the current item and -1 on the rest
+ * - Keys: ↓/↑ next/previous, → expand or first child, ← collapse or
+ *   parent, Home/End, `*` expands all siblings, Enter activates,
+ *   printable characters run typeahead
+ * - Focusing or clicking an item moves the cursor to it
+ */
+export function bindAria<T>(
+  navigator: Navigator<T>,
+  container: HTMLElement,
+  options: AriaOptions<T> = {}
+): AriaBinding {
+  const {
+    role = 'tree',
+    attribute = 'data-slug',
+    multiselectable = false,
+    focus = 'within',
+    typeahead = true,
+    label,
+    onActivate,
+  } = options;
+  const isTree = role === 'tree';
+  const search = typeahead ? createTypeahead(navigator, { label }) : null;
+
+  // Set on cursor moves, cleared once the new current element has focus
+  let pendingFocus = false;
+
+  // A cursor-only move, applied by the next 'update'
+  let pendingMove: NavChangeEvent<T> | null = null;
+
+  // From the last full pass: item elements by path, and the one with
+  // tabindex 0
+  let elementsByPath = new Map<string, HTMLElement[]>();
+  let tabbable: HTMLElement | undefined;
+
+  const indexNodes = (): NodeIndex<T> => {
+    const roots = buildTree(navigator.root);
+    const byPath = new Map<string, InternalNode<T>>();
+    const bySlug = new Map<string, InternalNode<T>>();
+    const visit = (node: InternalNode<T>) => {
+      byPath.set(node.path, node);
+      if (!bySlug.has(node.slug)) bySlug.set(node.slug, node);
+      node.children.forEach(visit);
+    };
+    roots.forEach(visit);
+    return { byPath, bySlug, roots };
+  };
+
+  const resolve = (index: NodeIndex<T>, element: Element) => {
+    const key = element.getAttribute(attribute);
+    if (key === null) return null;
+    return index.byPath.get(key) ?? index.bySlug.get(key) ?? null;
+  };
+
+  const itemElements = () =>
+    Array.from(container.querySelectorAll<HTMLElement>(`[${attribute}]`));
+
+  function refresh() {
+    const index = indexNodes();
+    const currentPath = navigator.currentPath;
+    const selected = new Set(navigator.selectedPaths);
+
+    container.setAttribute('role', role);
+    if (multiselectable) container.setAttribute('aria-multiselectable', 'true');
+    else container.removeAttribute('aria-multiselectable');
+
+    const items = itemElements()
+      .map((element) => ({ element, node: resolve(index, element) }))
+      .filter(
+        (entry): entry is { element: HTMLElement; node: InternalNode<T> } =>
+          entry.node !== null
+      );
+
+    // Keep the widget reachable with Tab when there is no cursor
+    const current = items.find(({ node }) => node.path === currentPath);
+    tabbable = (current ?? items[0])?.element;
+    elementsByPath = new Map();
+
+    for (const { element, node } of items) {
+      const siblings = node.parent ? node.parent.children : index.roots;
+      const isCurrent = node.path === currentPath;
+
+      const elements = elementsByPath.get(node.path);
+      if (elements) elements.push(element);
+      else elementsByPath.set(node.path, [element]);
+
+      element.setAttribute('role', isTree ? 'treeitem' : 'option');
+      element.setAttribute('tabindex', tabbable === element ? '0' : '-1');
+      element.setAttribute(
+        'aria-selected',
+        String(multiselectable ? selected.has(node.path) : isCurrent)
+      );
+      element.setAttribute('aria-setsize', String(siblings.length));
+      element.setAttribute('aria-posinset', String(node.indexInParent + 1));
+
+      if (isTree) {
+        element.setAttribute('aria-level', String(node.depth + 1));
+        if (isBranch(node.item)) {
+          element.setAttribute(
+            'aria-expanded',
+            String(navigator.isExpanded(node.path))
+          );
+        } else {
+          element.removeAttribute('aria-expanded');
+        }
+      }
+
+      if (isCurrent && pendingFocus) {
+        pendingFocus = false;
+        element.focus();
+      }
+    }
+  }
+
+  /**
+   * Apply a cursor move to the previous and new current elements only.
+   * Falls back to a full pass when the new item isn't rendered (yet).
+   */
+  function moveCurrent({ prevPath, nextPath }: NavChangeEvent<T>) {
+    const next = nextPath === null ? undefined : elementsByPath.get(nextPath);
+    if (!next || !next.every((element) => container.contains(element))) {
+      refresh();
+      return;
+    }
+
+    tabbable?.setAttribute('tabindex', '-1');
+    tabbable = next[0];
+    tabbable.setAttribute('tabindex', '0');
+
+    if (!multiselectable) {
+      const prev = prevPath === null ? [] : elementsByPath.get(prevPath);
+      for (const element of prev ?? []) {
+        element.setAttribute('aria-selected', 'false');
+      }
+      for (const element of next) element.setAttribute('aria-selected', 'true');
+    }
+
+    if (pendingFocus) {
+      pendingFocus = false;
+      tabbable.focus();
+    }
+  }
+
+  const onUpdate = () => {
+    const move = pendingMove;
+    pendingMove = null;
+    if (move) moveCurrent(move);
+    else refresh();
+  };
+
+  const hasFocus = () => {
+    const active = container.ownerDocument.activeElement;
+    return active !== null && container.contains(active);
+  };
+
+  /** Expand every branch next to the current item */
+  const expandSiblings = () => {
+    const index = indexNodes();
+    const node =
+      navigator.currentPath === null
+        ? undefined
+        : index.byPath.get(navigator.currentPath);
+    if (!node) return;
+
+    const siblings = node.parent ? node.parent.children : index.roots;
+    for (const sibling of siblings) {
+      if (isBranch(sibling.item)) navigator.expand(sibling.path);
+    }
+  };
+
+  /** Apply a key; returns false for keys the widget doesn't handle */
+  const handleKey = (event: KeyboardEvent): boolean => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return false;
+
+    const slug = navigator.current;
+    const item = navigator.currentItem;
+    // Path of the current item when it is a branch
+    const branch =
+      isTree && item !== null && isBranch(item) ? navigator.currentPath : null;
+    const extend = multiselectable && event.shiftKey;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        navigator.next();
+        break;
+      case 'ArrowUp':
+        navigator.prev();
+        break;
+      case 'ArrowRight':
+        if (!isTree) return false;
+        if (branch === null) break;
+        if (navigator.isExpanded(branch)) navigator.firstChild();
+        else navigator.expand(branch);
+        break;
+      case 'ArrowLeft':
+        if (!isTree) return false;
+        if (branch !== null && navigator.isExpanded(branch)) {
+          navigator.collapse(branch);
+        } else {
+          navigator.parent();
+        }
+        break;
+      case 'Home':
+        navigator.goTo(0);
+        break;
+      case 'End':
+        navigator.goTo(navigator.count - 1);
+        break;
+      case 'Enter':
+        if (slug === null) return false;
+        onActivate?.(slug);
+        return true;
+      case ' ':
+        if (!multiselectable || slug === null || search?.buffer) {
+          return search?.type(event.key) ?? false;
+        }
+        navigator.toggleSelect(slug);
+        return true;
+      case '*':
+        if (!isTree) return search?.type(event.key) ?? false;
+        expandSiblings();
+        return true;
+      default:
+        return search?.type(event.key) ?? false;
+    }
+
+    // Shift+arrows, Home and End select from the anchor to the new item
+    if (extend && navigator.current !== null) {
+      navigator.extendSelection(navigator.current);
+    }
+    return true;
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (handleKey(event)) event.preventDefault();
+  };
+
+  const itemFor = (target: EventTarget | null) => {
+    if (!(target instanceof Element)) return null;
+    const element = target.closest(`[${attribute}]`);
+    if (!element || !container.contains(element)) return null;
+    return resolve(indexNodes(), element);
+  };
+
+  const onFocusIn = (event: FocusEvent) => {
+    const node = itemFor(event.target);
+    if (node && node.path !== navigator.currentPath) {
+      navigator.goToPath(node.path);
+    }
+  };
+
+  const onClick = (event: MouseEvent) => {
+    const node = itemFor(event.target);
+    if (!node) return;
+
+    if (node.path !== navigator.currentPath) navigator.goToPath(node.path);
+    if (!multiselectable) return;
+
+    if (event.shiftKey) navigator.extendSelection(node.slug);
+    else if (event.ctrlKey || event.metaKey) navigator.toggleSelect(node.slug);
+    else navigator.select(node.slug);
+  };
+
+  const offChange = navigator.on('change', (event) => {
+    pendingFocus = focus === 'always' || hasFocus();
+    pendingMove = CURSOR_MOVES.has(event.cause) ? event : null;
+  });
+  const offUpdate = navigator.on('update', onUpdate);
+
+  container.addEventListener('keydown', onKeyDown);
+  container.addEventListener('focusin', onFocusIn);
+  container.addEventListener('click', onClick);
+
+  // Frameworks render new items after the navigator updates
+  const observer =
+    typeof MutationObserver === 'undefined'
+      ? null
+      : new MutationObserver(refresh);
+  observer?.observe(container, {
+    childList: true,
+    subtree: true,
+    attributeFilter: [attribute],
+  });
+
+  refresh();
+
+  return {
+    refresh,
+
+    dispose() {
+      offChange();
+      offUpdate();
+      observer?.disconnect();
+      container.removeEventListener('keydown', onKeyDown);
+      container.removeEventListener('focusin', onFocusIn);
+      container.removeEventListener('click', onClick);
+    },
+  };
+}
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * Entry point for the compass-validate command - see cli.ts
+ */
+
+import { runValidateCli } from './cli.js';
+
+process.exitCode = await runValidateCli(process.argv.slice(2));
@@ -1,53 +1,289 @@
 /**
- * Internal helper that flattens a tree into DFS pre-order.
- * This powers next/prev navigation - consumers don't call this directly.
+ * Internal helpers that turn items into a node tree and flatten it
+ * into DFS pre-order (or another traversal order). This powers next/prev
+ * navigation - consumers don't call these directly.
  *
  * Given: [{ slug: 'a', children: ['a1', 'a2'] }, 'b']
- * Returns: [a, a1, a2, b] (as InternalNode objects with parent refs)
- */
-
-import type { NavItem, InternalNode } from './types.js';
-import { isBranch, getSlug } from './helpers.js';
-
-/**
- * Build flat list of visitable items in DFS pre-order
- */
-export function buildFlatList(
-  items: NavItem[],
-  leavesOnly: boolean
-): InternalNode[] {
-  const result: InternalNode[] = [];
-
-  function traverse(
-    itemList: NavItem[],
-    parent: InternalNode | null,
-    depth: number
-  ): void {
-    for (let i = 0; i < itemList.length; i++) {
-      const item = itemList[i];
-      const slug = getSlug(item);
-      const hasBranch = isBranch(item);
-
-      const internal: InternalNode = {
-        item,
-        slug,
-        parent,
-        depth,
-        indexInParent: i,
-      };
-
-      // Add to flat list if not skipping branches or if this is a leaf
-      if (!leavesOnly || !hasBranch) {
-        result.push(internal);
+ * Returns: [a, a1, a2, b] (as InternalNode objects with parent refs),
+ * plus slug/node → index tables and per-node subtree ranges.
+ */
+
+import type {
+  NavItem,
+  NavPredicate,
+  NavOrder,
+  InternalNode,
+  FlatList,
+  DuplicateSlug,
+} from './types.js';
+import { isBranch, hasLoader, getSlug, getData } from './helpers.js';
+
+/**
+ * Options controlling which nodes end up in the flat list
+ */
+export interface FlattenTreeOptions<T> {
+  /** Only include leaves (collapsed branches count as leaves) */
+  leavesOnly?: boolean;
+
+  /** Return true for branches whose children are hidden */
+  isCollapsed?: (node: InternalNode<T>) => boolean;
+
+  /** Only include nodes matching this predicate */
+  filter?: NavPredicate<T> | null;
+
+  /** Also include ancestors of nodes matching the filter */
+  keepAncestors?: boolean;
+
+  /** Traversal order (default: 'preorder') */
+  order?: NavOrder;
+}
+
+/**
+ * Lookup tables over the whole tree, visible or not
+ */
+export interface TreeIndex<T> {
+  /** First node in DFS pre-order with each slug */
+  nodeBySlug: Map<string, InternalNode<T>>;
+
+  /** Every node by path */
+  nodeByPath: Map<string, InternalNode<T>>;
+
+  /** Slugs that occur more than once, with all of their paths */
+  duplicates: DuplicateSlug[];
+
+  /** All branches in DFS pre-order */
+  branches: InternalNode<T>[];
+}
+
+/**
+ * Build the internal node tree for items
+ */
+export function buildTree<T>(
+  items: NavItem<T>[],
+  parent: InternalNode<T> | null = null
+): InternalNode<T>[] {
+  const depth = parent ? parent.depth + 1 : 0;
+  const seen = new Map<string, number>();
+
+  return items.map((item, i) => {
+    const slug = getSlug(item);
+    const occurrence = seen.get(slug) ?? 0;
+    seen.set(slug, occurrence + 1);
+    const internal: InternalNode<T> = {
+      item,
+      slug,
+      path: joinPath(parent, slug, occurrence),
+      parent,
+      children: [],
+      depth,
+      indexInParent: i,
+    };
+    // Lazy branches get their child nodes once the loader resolves
+    if (isBranch(item) && Array.isArray(item.children)) {
+      internal.children = buildTree(item.children, internal);
+    }
+    return internal;
+  });
+}
+
+/**
+ * Build a node path from its parent and slug. Siblings sharing a slug
+ * are told apart by how many came before: `a`, `a~1`, `a~2`.
+ */
+export function joinPath<T>(
+  parent: InternalNode<T> | null,
+  slug: string,
+  occurrence = 0
+): string {
+  const name = occurrence > 0 ? `${slug}~${occurrence}` : slug;
+  return parent ? `${parent.path}/${name}` : name;
+}
+
+/**
+ * Index every node in the tree by slug and path, and collect branches
+ */
+export function indexTree<T>(roots: InternalNode<T>[]): TreeIndex<T> {
+  const nodeBySlug = new Map<string, InternalNode<T>>();
+  const nodeByPath = new Map<string, InternalNode<T>>();
+  const pathsBySlug = new Map<string, string[]>();
+  const branches: InternalNode<T>[] = [];
+
+  function traverse(nodes: InternalNode<T>[]): void {
+    for (const node of nodes) {
+      if (!nodeBySlug.has(node.slug)) nodeBySlug.set(node.slug, node);
+      nodeByPath.set(node.path, node);
+
+      const paths = pathsBySlug.get(node.slug);
+      if (paths) paths.push(node.path);
+      else pathsBySlug.set(node.slug, [node.path]);
+
+      if (isBranch(node.item)) {
+        branches.push(node);
+        traverse(node.children);
+      }
+    }
+  }
+
+  traverse(roots);
+
+  const duplicates: DuplicateSlug[] = [];
+  for (const [slug, paths] of pathsBySlug) {
+    if (paths.length > 1) duplicates.push({ slug, paths });
+  }
+
+  return { nodeBySlug, nodeByPath, duplicates, branches };
+}
+
+/**
+ * Flatten a node tree to the visible nodes in the requested order
+ * (DFS pre-order by default)
+ */
+export function flattenTree<T>(
+  roots: InternalNode<T>[],
+  options: FlattenTreeOptions<T>
+): FlatList<T> {
+  const {
+    leavesOnly,
+    isCollapsed,
+    filter,
+    keepAncestors,
+    order = 'preorder',
+  } = options;
+  // With keepAncestors, nodes to keep are precomputed bottom-up
+  const kept = filter && keepAncestors ? new Set<InternalNode<T>>() : null;
+  const list: FlatList<T> = {
+    nodes: [],
+    indexBySlug: new Map(),
+    indexByPath: new Map(),
+    indexByNode: new Map(),
+    ranges: new Map(),
+  };
+
+  function isOpen(node: InternalNode<T>): boolean {
+    return (
+      isBranch(node.item) && !hasLoader(node.item) && !isCollapsed?.(node)
+    );
+  }
+
+  // Add to flat list if not skipping branches or if this is a leaf.
+  // A collapsed or unloaded branch is the visible endpoint, so it acts
+  // as a leaf.
+  function include(node: InternalNode<T>): void {
+    if (leavesOnly && isOpen(node)) return;
+    if (!passes(node)) return;
+    if (list.indexByNode.has(node)) return;
+
+    const index = list.nodes.length;
+    list.indexByNode.set(node, index);
+    if (!list.indexBySlug.has(node.slug)) {
+      list.indexBySlug.set(node.slug, index);
+    }
+    list.indexByPath.set(node.path, index);
+    list.nodes.push(node);
+  }
+
+  function preorder(nodes: InternalNode<T>[]): void {
+    for (const node of nodes) {
+      include(node);
+      if (isOpen(node)) preorder(node.children);
+    }
+  }
+
+  function postorder(nodes: InternalNode<T>[]): void {
+    for (const node of nodes) {
+      if (isOpen(node)) postorder(node.children);
+      include(node);
+    }
+  }
+
+  function breadthFirst(nodes: InternalNode<T>[]): void {
+    const queue = nodes.slice();
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i];
+      include(node);
+      if (isOpen(node)) queue.push(...node.children);
+    }
+  }
+
+  // Custom sequence of paths or slugs. Nodes hidden inside collapsed
+  // branches are skipped, like in the structural orders.
+  function sequence(refs: string[]): void {
+    const { nodeBySlug, nodeByPath } = indexTree(roots);
+    for (const ref of refs) {
+      const node = nodeByPath.get(ref) ?? nodeBySlug.get(ref);
+      if (node && isReachable(node)) include(node);
+    }
+  }
+
+  function isReachable(node: InternalNode<T>): boolean {
+    for (let n = node.parent; n; n = n.parent) {
+      if (!isOpen(n)) return false;
+    }
+    return true;
+  }
+
+  function passes(node: InternalNode<T>): boolean {
+    if (!filter) return true;
+    if (kept) return kept.has(node);
+    return filter(node.slug, getData(node.item), node.item);
+  }
+
+  // Keep matches and every node with a matching descendant. Hidden
+  // subtrees count too, so collapsed ancestors of matches stay visible.
+  function markKept(nodes: InternalNode<T>[]): boolean {
+    let any = false;
+    for (const node of nodes) {
+      const below = markKept(node.children);
+      if (below || filter!(node.slug, getData(node.item), node.item)) {
+        kept!.add(node);
+        any = true;
       }
+    }
+    return any;
+  }
+
+  // Range of flat indices covered by each subtree. Contiguous for
+  // pre- and post-order; for other orders it spans min to max.
+  function markRanges(nodes: InternalNode<T>[]): void {
+    for (const node of nodes) {
+      let start = list.indexByNode.get(node) ?? Infinity;
+      let end = start === Infinity ? -Infinity : start + 1;
 
-      // Recurse into children
-      if (hasBranch) {
-        traverse(item.children, internal, depth + 1);
+      if (isOpen(node)) {
+        markRanges(node.children);
+        for (const child of node.children) {
+          const range = list.ranges.get(child)!;
+          if (range.start < range.end) {
+            start = Math.min(start, range.start);
+            end = Math.max(end, range.end);
+          }
+        }
       }
+
+      list.ranges.set(
+        node,
+        start < end ? { start, end } : { start: 0, end: 0 }
+      );
     }
   }
 
-  traverse(items, null, 0);
-  return result;
+  if (kept) markKept(roots);
+
+  if (Array.isArray(order)) sequence(order);
+  else if (order === 'postorder') postorder(roots);
+  else if (order === 'breadth-first') breadthFirst(roots);
+  else preorder(roots);
+
+  markRanges(roots);
+  return list;
+}
+
+/**
+ * Build flat list of visitable items (DFS pre-order unless configured)
+ */
+export function buildFlatList<T>(
+  items: NavItem<T>[],
+  options: FlattenTreeOptions<T>
+): FlatList<T> {
+  return flattenTree(buildTree(items), options);
 }
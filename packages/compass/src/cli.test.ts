@@ -0,0 +1,88 @@
+/**
+ * Tests for the compass-validate command.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runValidateCli } from './cli.js';
+
+describe('runValidateCli', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'compass-cli-'));
+    await writeFile(
+      join(dir, 'valid.json'),
+      JSON.stringify(['intro', { slug: 'guides', children: ['install'] }])
+    );
+    await writeFile(
+      join(dir, 'invalid.yml'),
+      ['- intro', '- slug: guides', '  children: nope', ''].join('\n')
+    );
+    await writeFile(
+      join(dir, 'vitepress.json'),
+      JSON.stringify([{ text: 'Guide', items: [{ text: 'Intro', link: '/' }] }])
+    );
+    await writeFile(join(dir, 'broken.json'), '{');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function run(...args: string[]) {
+    const lines: string[] = [];
+    const output = {
+      log: (message: string) => lines.push(message),
+      error: (message: string) => lines.push(message),
+    };
+    return runValidateCli(args, output).then((code) => ({ code, lines }));
+  }
+
+  it('exits 0 for valid files', async () => {
+    const file = join(dir, 'valid.json');
+    const { code, lines } = await run(file);
+
+    expect(code).toBe(0);
+    expect(lines).toEqual([`${file}: ok`]);
+  });
+
+  it('reads YAML and reports errors with locations', async () => {
+    const file = join(dir, 'invalid.yml');
+    const { code, lines } = await run(file);
+
+    expect(code).toBe(1);
+    expect(lines).toEqual([
+      `${file}: 1 error(s)`,
+      '  items[1] (guides): children must be an array or a loader function, ' +
+        'got string "nope"',
+    ]);
+  });
+
+  it('normalizes sidebar formats with --normalize', async () => {
+    const file = join(dir, 'vitepress.json');
+
+    expect((await run(file)).code).toBe(1);
+    expect((await run('--normalize', file)).code).toBe(0);
+  });
+
+  it('reports unreadable files and keeps going', async () => {
+    const { code, lines } = await run(
+      join(dir, 'broken.json'),
+      join(dir, 'valid.json')
+    );
+
+    expect(code).toBe(1);
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toMatch(/valid\.json: ok$/);
+  });
+
+  it('prints usage without files', async () => {
+    const { code, lines } = await run();
+
+    expect(code).toBe(1);
+    expect(lines[0]).toMatch(/^Usage:/);
+  });
+});
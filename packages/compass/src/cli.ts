@@ -0,0 +1,91 @@
+/**
+ * Build-time validation for sidebar files.
+ *
+ * Usage:
+ *   compass-validate sidebar.yml [more files...] [--normalize]
+ *
+ * Reads JSON, or YAML when the optional `yaml` package is installed.
+ * With --normalize, the file is converted with normalizeItems() first,
+ * so Docusaurus/VitePress sidebars can be checked as-is.
+ * Exits with 1 if any file is invalid.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { validateItems, normalizeItems, formatItemErrors } from './validate.js';
+import { findDuplicateSlugs } from './utils.js';
+import type { NavItem } from './types.js';
+
+/**
+ * Output streams used by the CLI, swappable for tests
+ */
+export interface CliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+const USAGE = 'Usage: compass-validate <file...> [--normalize]';
+
+/**
+ * Validate each file named in args. Resolves to the process exit code.
+ */
+export async function runValidateCli(
+  args: string[],
+  output: CliOutput = console
+): Promise<number> {
+  const normalize = args.includes('--normalize');
+  const files = args.filter((arg) => !arg.startsWith('--'));
+
+  if (args.includes('--help')) {
+    output.log(USAGE);
+    return 0;
+  }
+  if (files.length === 0) {
+    output.error(USAGE);
+    return 1;
+  }
+
+  let failed = false;
+  for (const file of files) {
+    try {
+      let input = await parseFile(file);
+      if (normalize) input = normalizeItems(input);
+
+      const errors = validateItems(input);
+      if (errors.length > 0) {
+        failed = true;
+        output.error(`${file}: ${errors.length} error(s)`);
+        output.error(indent(formatItemErrors(errors)));
+        continue;
+      }
+
+      for (const { slug, paths } of findDuplicateSlugs(input as NavItem[])) {
+        output.log(`${file}: duplicate slug "${slug}" at ${paths.join(', ')}`);
+      }
+      output.log(`${file}: ok`);
+    } catch (err) {
+      failed = true;
+      output.error(`${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+async function parseFile(file: string): Promise<unknown> {
+  const source = await readFile(file, 'utf8');
+  const ext = extname(file).toLowerCase();
+  if (ext !== '.yml' && ext !== '.yaml') return JSON.parse(source);
+
+  let yaml: typeof import('yaml');
+  try {
+    yaml = await import('yaml');
+  } catch {
+    throw new Error('Reading YAML requires the "yaml" package');
+  }
+  return yaml.parse(source);
+}
+
+function indent(text: string): string {
+  return text.replace(/^/gm, '  ');
+}
@@ -0,0 +1,55 @@
+/**
+ * Benchmarks for the Compass navigator.
+ * Each move is measured on a 5,000 and a 50,000 page tree: lookups are
+ * O(1) or O(depth), so both sizes should report similar ops/sec.
+ * complexity.test.ts fails the test run when that stops being true.
+ *
+ * Run with: npm run bench
+ */
+
+import { bench, describe } from 'vitest';
+import { createNavigator } from './index.js';
+import { makeTree } from '../tests/fixtures/tree.js';
+
+for (const [sections, pages] of [
+  [50, 100],
+  [500, 100],
+] as const) {
+  const items = makeTree(sections, pages);
+  const lastPage = `page-${sections - 1}-${pages - 2}`;
+
+  describe(`${sections * pages} pages`, () => {
+    const nav = createNavigator({ items });
+    const leaves = createNavigator({ items, leavesOnly: true });
+
+    bench('goToSlug', () => {
+      nav.goToSlug(lastPage);
+      nav.goToSlug('section-0');
+    });
+
+    bench('nextSibling from last child', () => {
+      nav.goToSlug(lastPage);
+      nav.nextSibling();
+    });
+
+    bench('prevSibling', () => {
+      nav.goToSlug(lastPage);
+      nav.prevSibling();
+    });
+
+    bench('parent', () => {
+      nav.goToSlug(lastPage);
+      nav.parent();
+    });
+
+    bench('firstChild', () => {
+      nav.goToSlug(`section-${sections - 1}`);
+      nav.firstChild();
+    });
+
+    bench('nextSibling with leavesOnly', () => {
+      leaves.goToSlug(`page-${sections - 2}-${pages - 2}`);
+      leaves.nextSibling();
+    });
+  });
+}
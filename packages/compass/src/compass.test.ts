@@ -3,14 +3,48 @@
  * Covers: helpers, navigator, tree traversal, and stateless utilities.
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
+  createEditSession,
+  createGraphNavigator,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
   createNavigator,
+  createProgress,
+  createSessionStorageAdapter,
+  createTypeahead,
+  diffTrees,
+  findBranch,
+  findDuplicateSlugs,
+  flattenEntries,
   flattenSlugs,
+  formatItemErrors,
+  formatTreeDiff,
+  getAncestors,
+  getBreadcrumbs,
+  getCompletion,
+  getData,
+  getDepth,
+  getDescendants,
+  getNeighborEntries,
   getNeighbors,
+  getSectionNeighborEntries,
+  getSectionNeighbors,
+  getSiblings,
   getSlug,
+  getSubtree,
+  graphToItems,
+  hasLoader,
   isBranch,
+  normalizeItems,
+  replayEdits,
+  sortGraph,
+  validateItems,
+  type NavBranch,
   type NavItem,
+  type Navigator,
+  type NavigatorState,
+  type ProgressState,
 } from './index.js';
 
 describe('compass', () => {
@@ -23,6 +57,19 @@ describe('compass', () => {
     it('getSlug extracts slug from any item', () => {
       expect(getSlug('plain')).toBe('plain');
       expect(getSlug({ slug: 'branch', children: [] })).toBe('branch');
+      expect(getSlug({ slug: 'leaf', data: 1 })).toBe('leaf');
+    });
+
+    it('isBranch treats leaf objects as leaves', () => {
+      expect(isBranch({ slug: 'leaf', data: { title: 'Leaf' } })).toBe(false);
+    });
+
+    it('getData extracts data payload from any item', () => {
+      expect(getData('plain')).toBeUndefined();
+      expect(getData({ slug: 'leaf', data: { title: 'Leaf' } })).toEqual({
+        title: 'Leaf',
+      });
+      expect(getData({ slug: 'branch', data: 42, children: [] })).toBe(42);
     });
   });
 
@@ -342,198 +389,3566 @@ describe('compass', () => {
       });
     });
 
-    describe('goTo()', () => {
-      it('jumps to specific index', () => {
-        const nav = createNavigator({ items: ['a', 'b', 'c'] });
+    describe('expand/collapse', () => {
+      const items: NavItem[] = [
+        {
+          slug: 'section-a',
+          children: ['a1', { slug: 'a2', children: ['a2-x'] }],
+        },
+        {
+          slug: 'section-b',
+          children: ['b1'],
+        },
+      ];
 
-        nav.goTo(2);
-        expect(nav.current).toBe('c');
-        expect(nav.currentIndex).toBe(2);
+      function visible(nav: ReturnType<typeof createNavigator>): string[] {
+        const start = nav.currentIndex;
+        const slugs: string[] = [];
+        for (let i = 0; i < nav.count; i++) {
+          nav.goTo(i);
+          slugs.push(nav.current!);
+        }
+        nav.goTo(start);
+        return slugs;
+      }
+
+      it('expands every branch by default', () => {
+        const nav = createNavigator({ items });
+        expect(nav.count).toBe(6);
+        expect(nav.expanded).toEqual(['section-a', 'a2', 'section-b']);
+        expect(nav.isExpanded('section-a')).toBe(true);
       });
 
-      it('ignores invalid indices', () => {
-        const nav = createNavigator({ items: ['a', 'b'] });
+      it('accepts initial expansion state', () => {
+        const none = createNavigator({ items, expanded: false });
+        expect(visible(none)).toEqual(['section-a', 'section-b']);
 
-        nav.goTo(-1);
-        expect(nav.currentIndex).toBe(0);
+        const some = createNavigator({ items, expanded: ['section-b'] });
+        expect(visible(some)).toEqual(['section-a', 'section-b', 'b1']);
+      });
 
-        nav.goTo(999);
+      it('next() skips children of collapsed branches', () => {
+        const nav = createNavigator({ items });
+        nav.collapse('section-a');
+
+        expect(nav.count).toBe(3);
+        nav.next();
+        expect(nav.current).toBe('section-b');
+        expect(nav.currentIndex).toBe(1);
+      });
+
+      it('expand() makes children visitable again', () => {
+        const nav = createNavigator({ items, expanded: false });
+        nav.expand('section-a');
+
+        expect(visible(nav)).toEqual(['section-a', 'a1', 'a2', 'section-b']);
+        nav.firstChild();
+        expect(nav.current).toBe('a1');
+      });
+
+      it('toggle() flips expansion state', () => {
+        const nav = createNavigator({ items });
+
+        nav.toggle('a2');
+        expect(nav.isExpanded('a2')).toBe(false);
+        nav.toggle('a2');
+        expect(nav.isExpanded('a2')).toBe(true);
+      });
+
+      it('expandAll() and collapseAll() affect every branch', () => {
+        const nav = createNavigator({ items });
+
+        nav.collapseAll();
+        expect(nav.expanded).toEqual([]);
+        expect(nav.count).toBe(2);
+
+        nav.expandAll();
+        expect(nav.count).toBe(6);
+      });
+
+      it('keeps the expanded list until expansion or the tree changes', () => {
+        const nav = createNavigator({ items: structuredClone(items) });
+        const expanded = nav.expanded;
+
+        nav.next();
+        expect(nav.expanded).toBe(expanded);
+
+        nav.collapse('a2');
+        expect(nav.expanded).toEqual(['section-a', 'section-b']);
+
+        const collapsed = nav.expanded;
+        nav.rename('section-b', 'part-b');
+        expect(nav.expanded).not.toBe(collapsed);
+        expect(nav.expanded).toEqual(['section-a', 'part-b']);
+      });
+
+      it('ignores leaves and unknown slugs', () => {
+        const onExpansionChange = vi.fn();
+        const nav = createNavigator({ items, onExpansionChange });
+
+        nav.collapse('a1');
+        nav.toggle('missing');
+        expect(nav.isExpanded('a1')).toBe(false);
+        expect(onExpansionChange).not.toHaveBeenCalled();
+      });
+
+      it('moves cursor to collapsed ancestor and reports via onChange', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, onChange });
+        nav.goToSlug('a2-x');
+        onChange.mockClear();
+
+        nav.collapse('section-a');
+
+        expect(nav.current).toBe('section-a');
         expect(nav.currentIndex).toBe(0);
+        expect(onChange).toHaveBeenCalledWith('a2-x', 'section-a', 0, undefined);
+      });
+
+      it('keeps the current node when its index shifts', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, onChange });
+        nav.goToSlug('b1');
+        onChange.mockClear();
+
+        nav.collapse('section-a');
+
+        expect(nav.current).toBe('b1');
+        expect(nav.currentIndex).toBe(2);
+        expect(onChange).not.toHaveBeenCalled();
+      });
+
+      it('fires onExpansionChange for each changed branch', () => {
+        const onExpansionChange = vi.fn();
+        const nav = createNavigator({
+          items,
+          expanded: ['section-a'],
+          onExpansionChange,
+        });
+
+        nav.collapse('section-a');
+        expect(onExpansionChange).toHaveBeenCalledWith('section-a', false);
+
+        onExpansionChange.mockClear();
+        nav.expandAll();
+        expect(onExpansionChange.mock.calls).toEqual([
+          ['section-a', true],
+          ['a2', true],
+          ['section-b', true],
+        ]);
+      });
+
+      it('treats collapsed branches as stops when leavesOnly=true', () => {
+        const nav = createNavigator({ items, leavesOnly: true });
+        expect(visible(nav)).toEqual(['a1', 'a2-x', 'b1']);
+
+        nav.collapse('section-a');
+        expect(visible(nav)).toEqual(['section-a', 'b1']);
+        expect(nav.current).toBe('section-a');
       });
     });
 
-    describe('reset()', () => {
-      it('resets to first item', () => {
-        const nav = createNavigator({ items: ['a', 'b', 'c'] });
-        nav.goTo(2);
+    describe('tree mutations', () => {
+      function makeItems(): NavItem[] {
+        return [
+          { slug: 'section-a', children: ['a1', 'a2'] },
+          { slug: 'section-b', children: ['b1'] },
+        ];
+      }
 
-        nav.reset();
-        expect(nav.current).toBe('a');
-        expect(nav.currentIndex).toBe(0);
+      it('insert() adds an item under a branch', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.insert('section-a', 1, 'a-new');
+
+        expect(flattenSlugs(nav.root)).toEqual([
+          'section-a',
+          'a1',
+          'a-new',
+          'a2',
+          'section-b',
+          'b1',
+        ]);
+        expect(nav.count).toBe(6);
       });
 
-      it('handles empty list', () => {
+      it('insert() adds at root level with a null parent', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.insert(null, 0, { slug: 'intro', children: ['welcome'] });
+
+        expect(flattenSlugs(nav.root).slice(0, 3)).toEqual([
+          'intro',
+          'welcome',
+          'section-a',
+        ]);
+      });
+
+      it('insert() ignores leaf and unknown parents', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.insert('a1', 0, 'x');
+        nav.insert('missing', 0, 'x');
+
+        expect(nav.count).toBe(5);
+      });
+
+      it('insert() keeps the cursor on the current node', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items: makeItems(), onChange });
+        nav.goToSlug('a2');
+        onChange.mockClear();
+
+        nav.insert(null, 0, 'intro');
+
+        expect(nav.current).toBe('a2');
+        expect(nav.currentIndex).toBe(3);
+        expect(onChange).not.toHaveBeenCalled();
+      });
+
+      it('insert() into an empty navigator moves to the first item', () => {
         const nav = createNavigator({ items: [] });
-        nav.reset();
-        expect(nav.current).toBeNull();
-        expect(nav.currentIndex).toBe(-1);
+        nav.insert(null, 0, 'first');
+
+        expect(nav.current).toBe('first');
+        expect(nav.currentIndex).toBe(0);
       });
-    });
 
-    describe('onChange callback', () => {
-      it('fires on navigation', () => {
+      it('remove() drops the item and its descendants', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.remove('section-a');
+
+        expect(flattenSlugs(nav.root)).toEqual(['section-b', 'b1']);
+        expect(nav.current).toBe('section-b');
+      });
+
+      it('remove() of the current node moves to the next neighbour', () => {
         const onChange = vi.fn();
-        const nav = createNavigator({ items: ['a', 'b'], onChange });
+        const nav = createNavigator({ items: makeItems(), onChange });
+        nav.goToSlug('a1');
+        onChange.mockClear();
 
-        nav.next();
+        nav.remove('a1');
 
-        expect(onChange).toHaveBeenCalledTimes(1);
-        expect(onChange).toHaveBeenCalledWith('a', 'b', 1);
+        expect(nav.current).toBe('a2');
+        expect(onChange).toHaveBeenCalledWith('a1', 'a2', 1, undefined);
       });
 
-      it('provides correct prev/next slugs', () => {
-        const calls: Array<{
-          prev: string | null;
-          next: string | null;
-          index: number;
-        }> = [];
-        const onChange = (
-          prev: string | null,
-          next: string | null,
-          index: number
-        ) => {
-          calls.push({ prev, next, index });
-        };
+      it('remove() of the last node moves to the previous neighbour', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.goToSlug('b1');
 
-        const nav = createNavigator({ items: ['a', 'b', 'c'], onChange });
+        nav.remove('b1');
+        expect(nav.current).toBe('section-b');
 
-        nav.next();
-        nav.next();
-        nav.prev();
+        nav.remove('section-b');
+        expect(nav.current).toBe('a2');
+      });
 
-        expect(calls).toEqual([
-          { prev: 'a', next: 'b', index: 1 },
-          { prev: 'b', next: 'c', index: 2 },
-          { prev: 'c', next: 'b', index: 1 },
+      it('remove() of the only item leaves an empty navigator', () => {
+        const nav = createNavigator({ items: ['only'] });
+        nav.remove('only');
+
+        expect(nav.current).toBeNull();
+        expect(nav.currentIndex).toBe(-1);
+      });
+
+      it('move() relocates a subtree and keeps the cursor', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.goToSlug('a2');
+
+        nav.move('section-a', 'section-b', 1);
+
+        expect(flattenSlugs(nav.root)).toEqual([
+          'section-b',
+          'b1',
+          'section-a',
+          'a1',
+          'a2',
         ]);
+        expect(nav.current).toBe('a2');
+        expect(nav.currentIndex).toBe(4);
+
+        nav.parent();
+        nav.parent();
+        expect(nav.current).toBe('section-b');
       });
-    });
 
-    describe('root property', () => {
-      it('returns original items', () => {
-        const items: NavItem[] = [{ slug: 'a', children: ['b'] }];
+      it('move() refuses to move a node into its own subtree', () => {
+        const items: NavItem[] = [
+          { slug: 'outer', children: [{ slug: 'inner', children: [] }] },
+        ];
         const nav = createNavigator({ items });
 
-        expect(nav.root).toBe(items);
+        nav.move('outer', 'inner', 0);
+        expect(flattenSlugs(nav.root)).toEqual(['outer', 'inner']);
       });
-    });
 
-    describe('currentItem property', () => {
-      it('returns the full item (string or branch)', () => {
-        const items: NavItem[] = [{ slug: 'section', children: ['leaf'] }];
-        const nav = createNavigator({ items });
+      it('move() supports sibling navigation afterwards', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.move('a2', 'section-a', 0);
+        nav.goToSlug('a2');
 
-        expect(nav.currentItem).toEqual({ slug: 'section', children: ['leaf'] });
-        nav.next();
-        expect(nav.currentItem).toBe('leaf');
+        nav.nextSibling();
+        expect(nav.current).toBe('a1');
       });
-    });
-  });
 
-  describe('flattenSlugs', () => {
-    it('flattens tree to DFS pre-order list', () => {
-      const items: NavItem[] = [
-        {
-          slug: 'a',
-          children: ['a1', 'a2'],
-        },
-        'b',
-      ];
+      it('rename() updates slugs and paths in place', () => {
+        const items = makeItems();
+        const nav = createNavigator({ items });
+        nav.goToSlug('a2');
 
-      const slugs = flattenSlugs(items);
-      expect(slugs).toEqual(['a', 'a1', 'a2', 'b']);
-    });
+        nav.rename('section-a', 'intro');
+        nav.rename('a1', 'welcome');
 
-    it('respects leavesOnly option', () => {
-      const items: NavItem[] = [
-        {
-          slug: 'section',
-          children: ['item1', 'item2'],
-        },
-      ];
+        expect(nav.currentPath).toBe('intro/a2');
+        expect(items[0]).toEqual({ slug: 'intro', children: ['welcome', 'a2'] });
+        expect(nav.isExpanded('intro')).toBe(true);
+      });
 
-      const slugs = flattenSlugs(items, true);
-      expect(slugs).toEqual(['item1', 'item2']);
-    });
+      it('rename() of the current node fires onChange but not change', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items: makeItems(), onChange });
+        const change = vi.fn();
+        nav.on('change', change);
+        nav.goToSlug('b1');
+        onChange.mockClear();
+        change.mockClear();
+
+        nav.rename('b1', 'b-one');
+        expect(onChange).toHaveBeenCalledWith('b1', 'b-one', 4, undefined);
+        expect(change).not.toHaveBeenCalled();
+        expect(nav.current).toBe('b-one');
+      });
 
-    it('handles empty list', () => {
-      expect(flattenSlugs([])).toEqual([]);
-    });
-  });
+      it('rename() carries collapsed state and ignores unknown slugs', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.collapse('section-b');
+
+        nav.rename('section-b', 'outro');
+        nav.rename('missing', 'x');
+        expect(nav.isExpanded('outro')).toBe(false);
+        expect(flattenSlugs(nav.root)).toEqual([
+          'section-a',
+          'a1',
+          'a2',
+          'outro',
+          'b1',
+        ]);
+      });
 
-  describe('getNeighbors', () => {
-    it('returns prev and next slugs', () => {
-      const items = ['a', 'b', 'c'];
+      it('setItems() replaces the tree and keeps the current slug', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items: makeItems(), onChange });
+        nav.goToSlug('b1');
+        onChange.mockClear();
 
-      const { prev, next } = getNeighbors(items, 'b');
-      expect(prev).toBe('a');
-      expect(next).toBe('c');
-    });
+        const next: NavItem[] = ['b1', 'c1'];
+        nav.setItems(next);
 
-    it('returns null for prev at start', () => {
-      const items = ['a', 'b'];
+        expect(nav.root).toBe(next);
+        expect(nav.current).toBe('b1');
+        expect(nav.currentIndex).toBe(0);
+        expect(onChange).not.toHaveBeenCalled();
+      });
 
-      const { prev, next } = getNeighbors(items, 'a');
-      expect(prev).toBeNull();
-      expect(next).toBe('b');
-    });
+      it('setItems() stays near the old index when the slug is gone', () => {
+        const nav = createNavigator({ items: ['a', 'b', 'c'] });
+        nav.goTo(2);
 
-    it('returns null for next at end', () => {
-      const items = ['a', 'b'];
+        nav.setItems(['x', 'y']);
+        expect(nav.current).toBe('y');
+      });
 
-      const { prev, next } = getNeighbors(items, 'b');
-      expect(prev).toBe('a');
-      expect(next).toBeNull();
-    });
+      it('keeps expansion state across mutations', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.collapse('section-b');
 
-    it('returns null for both if slug not found', () => {
-      const items = ['a'];
+        nav.insert('section-a', 0, 'a0');
+        expect(nav.isExpanded('section-b')).toBe(false);
 
-      const { prev, next } = getNeighbors(items, 'unknown');
-      expect(prev).toBeNull();
-      expect(next).toBeNull();
+        nav.setItems(makeItems());
+        expect(nav.isExpanded('section-b')).toBe(false);
+        expect(nav.count).toBe(4);
+      });
     });
 
-    it('works with nested trees', () => {
+    describe('duplicate slugs and paths', () => {
       const items: NavItem[] = [
-        {
-          slug: 'parent',
-          children: ['child1', 'child2'],
-        },
+        { slug: 'guides', children: ['overview', 'install'] },
+        { slug: 'api', children: ['overview', 'reference'] },
       ];
 
-      // DFS order: parent, child1, child2
-      const neighbors1 = getNeighbors(items, 'child1');
-      expect(neighbors1.prev).toBe('parent');
-      expect(neighbors1.next).toBe('child2');
+      it('exposes currentPath', () => {
+        const nav = createNavigator({ items });
+        expect(nav.currentPath).toBe('guides');
 
-      const neighbors2 = getNeighbors(items, 'child2');
-      expect(neighbors2.prev).toBe('child1');
-      expect(neighbors2.next).toBeNull();
-    });
+        nav.next();
+        expect(nav.currentPath).toBe('guides/overview');
+      });
 
-    it('respects leavesOnly option', () => {
-      const items: NavItem[] = [
-        {
-          slug: 'parent',
-          children: ['child1', 'child2'],
-        },
-      ];
+      it('currentPath is null for empty navigator', () => {
+        expect(createNavigator({ items: [] }).currentPath).toBeNull();
+      });
 
-      // With leavesOnly, order is: child1, child2
-      const neighbors = getNeighbors(items, 'child1', { leavesOnly: true });
-      expect(neighbors.prev).toBeNull();
-      expect(neighbors.next).toBe('child2');
+      it('goToPath() distinguishes nodes with the same slug', () => {
+        const nav = createNavigator({ items });
+
+        nav.goToPath('api/overview');
+        expect(nav.current).toBe('overview');
+        expect(nav.currentIndex).toBe(4);
+
+        nav.goToPath('missing/path');
+        expect(nav.currentPath).toBe('api/overview');
+      });
+
+      it('prevSibling() stays within the current section', () => {
+        const nav = createNavigator({ items });
+        nav.goToPath('api/reference');
+
+        nav.prevSibling();
+        expect(nav.currentPath).toBe('api/overview');
+      });
+
+      it('goToSlug() resolves to the first match', () => {
+        const nav = createNavigator({ items });
+        nav.goToSlug('overview');
+        expect(nav.currentPath).toBe('guides/overview');
+      });
+
+      it('suffixes later siblings that share a slug', () => {
+        const nav = createNavigator({
+          items: [{ slug: 'g', children: ['a', 'a', 'b', 'a'] }],
+        });
+
+        nav.goToSlug('a');
+        expect(nav.currentPath).toBe('g/a');
+        expect(nav.currentIndex).toBe(1);
+
+        nav.goToPath('g/a~1');
+        expect(nav.currentIndex).toBe(2);
+        nav.goToPath('g/a~2');
+        expect(nav.currentIndex).toBe(4);
+
+        expect(
+          findDuplicateSlugs([{ slug: 'g', children: ['a', 'a'] }])
+        ).toEqual([{ slug: 'a', paths: ['g/a', 'g/a~1'] }]);
+      });
+
+      it('renumbers sibling suffixes after edits', () => {
+        const nav = createNavigator({
+          items: [{ slug: 'g', children: ['a', 'a'] }],
+        });
+        nav.goToPath('g/a~1');
+
+        nav.remove('a');
+        expect(nav.currentPath).toBe('g/a');
+        expect(nav.currentIndex).toBe(1);
+
+        nav.insert('g', 0, 'a');
+        expect(nav.currentPath).toBe('g/a~1');
+        nav.goToPath('g/a');
+        expect(nav.currentIndex).toBe(1);
+      });
+
+      it('expands and collapses duplicate branches separately', () => {
+        const onExpansionChange = vi.fn();
+        const nav = createNavigator({
+          items: [
+            { slug: 'guides', children: [{ slug: 'adv', children: ['a'] }] },
+            { slug: 'api', children: [{ slug: 'adv', children: ['b'] }] },
+          ],
+          onExpansionChange,
+        });
+
+        nav.collapse('api/adv');
+        expect(nav.isExpanded('guides/adv')).toBe(true);
+        expect(nav.isExpanded('api/adv')).toBe(false);
+        expect(onExpansionChange).toHaveBeenCalledWith('adv', false);
+
+        // A slug resolves to the first match only
+        nav.collapse('adv');
+        nav.expand('api/adv');
+        expect(nav.isExpanded('guides/adv')).toBe(false);
+        expect(nav.isExpanded('api/adv')).toBe(true);
+        expect(nav.serialize().collapsed).toEqual(['guides/adv']);
+
+        const restored = createNavigator({
+          items: nav.root,
+          initialState: nav.serialize(),
+        });
+        expect(restored.isExpanded('guides/adv')).toBe(false);
+        expect(restored.isExpanded('api/adv')).toBe(true);
+      });
+
+      it('restores collapsed slugs from older snapshots', () => {
+        const nav = createNavigator({
+          items: [{ slug: 'docs', children: [{ slug: 'api', children: ['x'] }] }],
+        });
+        nav.restore({ version: 1, current: null, collapsed: ['api'] });
+        expect(nav.isExpanded('docs/api')).toBe(false);
+        expect(nav.serialize().collapsed).toEqual(['docs/api']);
+      });
+
+      it('ignores duplicates by default', () => {
+        expect(() => createNavigator({ items })).not.toThrow();
+      });
+
+      it('throws with tree paths when duplicateSlugs=throw', () => {
+        expect(() =>
+          createNavigator({ items, duplicateSlugs: 'throw' })
+        ).toThrow('Duplicate slugs: "overview" at guides/overview, api/overview');
+      });
+
+      it('warns when duplicateSlugs=warn', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        createNavigator({ items, duplicateSlugs: 'warn' });
+
+        expect(warn).toHaveBeenCalledWith(
+          '[compass] Duplicate slugs: "overview" at guides/overview, api/overview'
+        );
+        warn.mockRestore();
+      });
+
+      it('validates replacement trees in setItems()', () => {
+        const nav = createNavigator({ items: ['a'], duplicateSlugs: 'throw' });
+
+        expect(() => nav.setItems(['b', 'b'])).toThrow('"b" at b, b~1');
+        expect(nav.root).toEqual(['a']);
+      });
+
+      it('setItems() keeps the current path', () => {
+        const nav = createNavigator({ items });
+        nav.goToPath('api/overview');
+
+        nav.setItems([...items, 'changelog']);
+        expect(nav.currentPath).toBe('api/overview');
+      });
+
+      it('move() updates paths', () => {
+        const nav = createNavigator({
+          items: [
+            { slug: 'a', children: ['x'] },
+            { slug: 'b', children: [] },
+          ],
+        });
+        nav.move('x', 'b', 0);
+
+        nav.goToPath('b/x');
+        expect(nav.current).toBe('x');
+        expect(nav.currentPath).toBe('b/x');
+      });
+    });
+
+    describe('history', () => {
+      const items = ['a', 'b', 'c', 'd', 'e'];
+
+      it('is disabled by default', () => {
+        const nav = createNavigator({ items });
+        nav.goToSlug('d');
+        nav.back();
+
+        expect(nav.current).toBe('d');
+        expect(nav.canGoBack).toBe(false);
+        expect(nav.history).toEqual({ entries: [], index: 0 });
+      });
+
+      it('back() returns to where a jump started', () => {
+        const nav = createNavigator({ items, history: true });
+        nav.next(); // b
+        nav.goToSlug('e');
+        nav.prev(); // d
+
+        expect(nav.canGoBack).toBe(true);
+        nav.back();
+        expect(nav.current).toBe('b');
+        expect(nav.canGoBack).toBe(false);
+      });
+
+      it('forward() undoes back()', () => {
+        const nav = createNavigator({ items, history: true });
+        nav.goToSlug('c');
+        nav.goToSlug('e');
+
+        nav.back();
+        expect(nav.current).toBe('c');
+        nav.back();
+        expect(nav.current).toBe('a');
+
+        expect(nav.canGoForward).toBe(true);
+        nav.forward();
+        expect(nav.current).toBe('c');
+        nav.forward();
+        expect(nav.current).toBe('e');
+        expect(nav.canGoForward).toBe(false);
+      });
+
+      it('a new jump discards forward entries', () => {
+        const nav = createNavigator({ items, history: true });
+        nav.goToSlug('c');
+        nav.goToSlug('e');
+        nav.back(); // c
+
+        nav.goToSlug('b');
+        expect(nav.canGoForward).toBe(false);
+        nav.back();
+        expect(nav.current).toBe('c');
+        nav.back();
+        expect(nav.current).toBe('a');
+      });
+
+      it('records only jumps by default', () => {
+        const nav = createNavigator({ items, history: true });
+        nav.next();
+        nav.next();
+
+        expect(nav.canGoBack).toBe(false);
+      });
+
+      it('records every move with record=all', () => {
+        const nav = createNavigator({ items, history: { record: 'all' } });
+        nav.next();
+        nav.next();
+
+        nav.back();
+        expect(nav.current).toBe('b');
+        nav.back();
+        expect(nav.current).toBe('a');
+      });
+
+      it('limits entries to the configured depth', () => {
+        const nav = createNavigator({ items, history: { depth: 2 } });
+        nav.goToSlug('b');
+        nav.goToSlug('c');
+        nav.goToSlug('d');
+
+        expect(nav.history.entries).toEqual(['b', 'c']);
+        nav.back();
+        nav.back();
+        expect(nav.current).toBe('c');
+        expect(nav.canGoBack).toBe(false);
+      });
+
+      it('goes back through onChange', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, history: true, onChange });
+        nav.goToSlug('d');
+        onChange.mockClear();
+
+        nav.back();
+        expect(onChange).toHaveBeenCalledWith('d', 'a', 0, undefined);
+      });
+
+      it('records paths so duplicate slugs stay distinct', () => {
+        const nav = createNavigator({
+          items: [
+            { slug: 'guides', children: ['overview'] },
+            { slug: 'api', children: ['overview'] },
+          ],
+          history: true,
+        });
+        nav.goToPath('api/overview');
+        nav.goToPath('guides/overview');
+
+        expect(nav.history.entries).toEqual(['guides', 'api/overview']);
+        nav.back();
+        expect(nav.currentPath).toBe('api/overview');
+      });
+
+      it('skips entries that are no longer visible', () => {
+        const nav = createNavigator({
+          items: [{ slug: 'section', children: ['x'] }, 'y'],
+          history: true,
+        });
+        nav.goToSlug('x');
+        nav.goToSlug('y');
+        nav.collapse('section');
+
+        nav.back();
+        expect(nav.current).toBe('section');
+      });
+
+      it('serializes to JSON and restores from initial state', () => {
+        const nav = createNavigator({ items, history: true });
+        nav.goToSlug('c');
+        nav.goToSlug('e');
+        nav.back();
+
+        const saved = JSON.parse(JSON.stringify(nav.history));
+        const restored = createNavigator({
+          items,
+          history: { initial: saved },
+        });
+
+        expect(restored.history).toEqual({ entries: ['a', 'c', 'e'], index: 1 });
+        restored.forward();
+        expect(restored.current).toBe('e');
+        restored.back();
+        expect(restored.current).toBe('c');
+      });
+    });
+
+    describe('serialize/restore', () => {
+      function makeItems(): NavItem[] {
+        return [
+          { slug: 'guides', children: ['overview', 'install'] },
+          { slug: 'api', children: ['overview', 'reference'] },
+        ];
+      }
+
+      it('serializes cursor, expansion and history to JSON', () => {
+        const nav = createNavigator({ items: makeItems(), history: true });
+        nav.goToPath('api/overview');
+        nav.collapse('guides');
+
+        expect(JSON.parse(JSON.stringify(nav.serialize()))).toEqual({
+          version: 1,
+          current: { path: 'api/overview', slug: 'overview', index: 2 },
+          collapsed: ['guides'],
+          history: { entries: ['guides'], index: 1 },
+        });
+      });
+
+      it('omits history when disabled', () => {
+        const nav = createNavigator({ items: makeItems() });
+        expect(nav.serialize()).not.toHaveProperty('history');
+      });
+
+      it('serializes an empty navigator', () => {
+        const nav = createNavigator({ items: [] });
+        expect(nav.serialize()).toEqual({
+          version: 1,
+          current: null,
+          collapsed: [],
+        });
+      });
+
+      it('starts from initialState without firing callbacks', () => {
+        const saved = createNavigator({ items: makeItems(), history: true });
+        saved.goToPath('api/reference');
+        saved.collapse('guides');
+
+        const onChange = vi.fn();
+        const onExpansionChange = vi.fn();
+        const nav = createNavigator({
+          items: makeItems(),
+          history: true,
+          initialState: saved.serialize(),
+          onChange,
+          onExpansionChange,
+        });
+
+        expect(nav.currentPath).toBe('api/reference');
+        expect(nav.isExpanded('guides')).toBe(false);
+        nav.back();
+        expect(nav.current).toBe('guides');
+        expect(onExpansionChange).not.toHaveBeenCalled();
+      });
+
+      it('accepts a null initialState', () => {
+        const nav = createNavigator({ items: makeItems(), initialState: null });
+        expect(nav.current).toBe('guides');
+      });
+
+      it('restore() moves through onChange and reports expansion', () => {
+        const onChange = vi.fn();
+        const onExpansionChange = vi.fn();
+        const nav = createNavigator({
+          items: makeItems(),
+          onChange,
+          onExpansionChange,
+        });
+
+        nav.restore({
+          version: 1,
+          current: { path: 'api/overview', slug: 'overview', index: 4 },
+          collapsed: ['guides'],
+        });
+
+        expect(nav.currentPath).toBe('api/overview');
+        expect(nav.currentIndex).toBe(2);
+        expect(onChange).toHaveBeenCalledWith('guides', 'overview', 2, undefined);
+        expect(onExpansionChange).toHaveBeenCalledWith('guides', false);
+      });
+
+      it('falls back to the slug when the path is gone', () => {
+        const nav = createNavigator({ items: ['intro', 'overview'] });
+        nav.restore({
+          version: 1,
+          current: { path: 'api/overview', slug: 'overview', index: 0 },
+          collapsed: [],
+        });
+        expect(nav.current).toBe('overview');
+      });
+
+      it('falls back to a clamped index when the node is gone', () => {
+        const nav = createNavigator({ items: ['a', 'b', 'c'] });
+        nav.restore({
+          version: 1,
+          current: { path: 'gone', slug: 'gone', index: 10 },
+          collapsed: ['gone-branch'],
+        });
+
+        expect(nav.current).toBe('c');
+        expect(nav.serialize().collapsed).toEqual([]);
+      });
+
+      it('ignores snapshots with an unknown version', () => {
+        const nav = createNavigator({ items: ['a', 'b'] });
+        nav.restore({ version: 2 } as unknown as NavigatorState);
+        expect(nav.current).toBe('a');
+      });
+
+      it('ignores initialState with an unknown version or shape', () => {
+        const snapshots = [
+          { version: 2, current: { path: 'b', slug: 'b', index: 1 } },
+          { version: 1 },
+          { version: 1, current: 'b', collapsed: [] },
+          { version: 1, current: null, collapsed: [1] },
+          { version: 1, current: null, collapsed: [], history: { index: 0 } },
+          { version: 1, current: null, collapsed: [], marks: { a: 'b' } },
+          'not a snapshot',
+        ];
+        for (const snapshot of snapshots) {
+          const state = snapshot as unknown as NavigatorState;
+          const nav = createNavigator({
+            items: ['a', 'b'],
+            history: true,
+            initialState: state,
+          });
+          expect(nav.current).toBe('a');
+
+          nav.goToSlug('b');
+          nav.restore(state);
+          expect(nav.current).toBe('b');
+        }
+      });
+
+      it('round-trips through createSessionStorageAdapter', () => {
+        const store = new Map<string, string>();
+        const fakeStorage = {
+          getItem: (key: string) => store.get(key) ?? null,
+          setItem: (key: string, value: string) => store.set(key, value),
+          removeItem: (key: string) => store.delete(key),
+        } as unknown as Storage;
+        const storage = createSessionStorageAdapter('nav', fakeStorage);
+
+        expect(storage.load()).toBeNull();
+
+        const nav = createNavigator({ items: makeItems() });
+        nav.goToPath('api/reference');
+        storage.save(nav.serialize());
+
+        const next = createNavigator({
+          items: makeItems(),
+          initialState: storage.load(),
+        });
+        expect(next.currentPath).toBe('api/reference');
+
+        storage.clear();
+        expect(storage.load()).toBeNull();
+      });
+
+      it('storage adapter tolerates corrupt data and missing storage', () => {
+        const fakeStorage = {
+          getItem: () => '{not json',
+          setItem: () => {
+            throw new Error('QuotaExceededError');
+          },
+        } as unknown as Storage;
+        const storage = createSessionStorageAdapter('nav', fakeStorage);
+
+        expect(storage.load()).toBeNull();
+        expect(() => storage.save(createNavigator({ items: [] }).serialize()))
+          .not.toThrow();
+
+        // Node has no sessionStorage: the default adapter is a no-op
+        const fallback = createSessionStorageAdapter('nav');
+        expect(fallback.load()).toBeNull();
+        expect(() => fallback.clear()).not.toThrow();
+      });
+
+      it('createLocalStorageAdapter() uses the given storage', () => {
+        const store = new Map<string, string>();
+        const fakeStorage = {
+          getItem: (key: string) => store.get(key) ?? null,
+          setItem: (key: string, value: string) => store.set(key, value),
+          removeItem: (key: string) => store.delete(key),
+        } as unknown as Storage;
+        const storage = createLocalStorageAdapter('nav', fakeStorage);
+
+        storage.save(createNavigator({ items: makeItems() }).serialize());
+        expect(JSON.parse(store.get('nav')!)).toMatchObject({ version: 1 });
+        expect(createLocalStorageAdapter('nav').load()).toBeNull();
+      });
+
+      it('createMemoryStorageAdapter() stores copies', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const storage = createMemoryStorageAdapter(nav.serialize());
+
+        const state = storage.load()!;
+        expect(state).toEqual(nav.serialize());
+        state.collapsed.push('api');
+        expect(storage.load()).toEqual(nav.serialize());
+
+        storage.clear();
+        expect(storage.load()).toBeNull();
+      });
+    });
+
+    describe('filter', () => {
+      type Lesson = { level: 'beginner' | 'advanced' };
+      const items: NavItem<Lesson>[] = [
+        {
+          slug: 'basics',
+          children: [
+            { slug: 'setup', data: { level: 'beginner' } },
+            { slug: 'internals', data: { level: 'advanced' } },
+          ],
+        },
+        {
+          slug: 'deep-dive',
+          children: [{ slug: 'perf', data: { level: 'advanced' } }],
+        },
+        { slug: 'faq', data: { level: 'beginner' } },
+      ];
+      const beginner = (_slug: string, data: Lesson | undefined) =>
+        data?.level === 'beginner';
+
+      it('only visits matching nodes', () => {
+        const nav = createNavigator({ items, filter: beginner });
+
+        expect(nav.count).toBe(2);
+        expect(nav.current).toBe('setup');
+        nav.next();
+        expect(nav.current).toBe('faq');
+      });
+
+      it('keeps ancestors of matches when keepAncestors=true', () => {
+        const nav = createNavigator({
+          items,
+          filter: beginner,
+          keepAncestors: true,
+        });
+
+        const slugs: string[] = [];
+        for (let i = 0; i < nav.count; i++) {
+          nav.goTo(i);
+          slugs.push(nav.current!);
+        }
+        expect(slugs).toEqual(['basics', 'setup', 'faq']);
+      });
+
+      it('keeps collapsed ancestors of hidden matches', () => {
+        const nav = createNavigator({
+          items,
+          filter: beginner,
+          keepAncestors: true,
+          expanded: false,
+        });
+
+        expect(nav.count).toBe(2);
+        expect(nav.current).toBe('basics');
+      });
+
+      it('setFilter() rebuilds the visible sequence', () => {
+        const nav = createNavigator({ items });
+        expect(nav.count).toBe(6);
+
+        nav.setFilter((slug) => slug.startsWith('p') || slug === 'internals');
+        expect(nav.count).toBe(2);
+
+        nav.setFilter(null);
+        expect(nav.count).toBe(6);
+      });
+
+      it('moves on and fires onChange when current is filtered out', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, onChange });
+        nav.goToSlug('internals');
+        onChange.mockClear();
+
+        nav.setFilter(beginner);
+
+        expect(nav.current).toBe('faq');
+        expect(onChange).toHaveBeenCalledWith('internals', 'faq', 1, {
+          level: 'beginner',
+        });
+      });
+
+      it('falls back to an earlier node when nothing follows', () => {
+        const nav = createNavigator({ items });
+        nav.goToSlug('faq');
+
+        nav.setFilter((_slug, data) => data?.level === 'advanced');
+        expect(nav.current).toBe('perf');
+      });
+
+      it('moves to a kept ancestor when current is filtered out', () => {
+        const nav = createNavigator({ items, keepAncestors: true });
+        nav.goToSlug('internals');
+
+        nav.setFilter(beginner);
+        expect(nav.current).toBe('basics');
+      });
+
+      it('handles a filter that matches nothing', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, onChange });
+
+        nav.setFilter(() => false);
+        expect(nav.current).toBeNull();
+        expect(nav.currentIndex).toBe(-1);
+        expect(onChange).toHaveBeenCalledWith('basics', null, -1, undefined);
+
+        nav.setFilter(null);
+        expect(nav.current).toBe('basics');
+      });
+
+      it('combines with leavesOnly', () => {
+        const nav = createNavigator({
+          items,
+          leavesOnly: true,
+          keepAncestors: true,
+          filter: (_slug, data) => data?.level === 'advanced',
+        });
+
+        expect(nav.count).toBe(2);
+        expect(nav.current).toBe('internals');
+      });
+
+      it('skips hidden siblings in nextSibling() and prevSibling()', () => {
+        for (const wrap of [false, true]) {
+          const nav = createNavigator({
+            items: ['a', 'b', 'c', 'd'],
+            filter: (slug) => slug !== 'c',
+            wrap,
+          });
+          nav.goToSlug('b');
+          nav.nextSibling();
+          expect(nav.current).toBe('d');
+          nav.prevSibling();
+          expect(nav.current).toBe('b');
+        }
+      });
+    });
+
+    describe('traversal order', () => {
+      const items: NavItem[] = [
+        {
+          slug: 'ch-1',
+          children: ['1.1', { slug: '1.2', children: ['1.2.1'] }],
+        },
+        { slug: 'ch-2', children: ['2.1'] },
+      ];
+
+      function walk(nav: ReturnType<typeof createNavigator>): string[] {
+        const slugs: string[] = [];
+        for (let i = 0; i < nav.count; i++) {
+          nav.goTo(i);
+          slugs.push(nav.current!);
+        }
+        nav.reset();
+        return slugs;
+      }
+
+      describe('preorder (default)', () => {
+        it('visits parents before children', () => {
+          const nav = createNavigator({ items, order: 'preorder' });
+          expect(walk(nav)).toEqual([
+            'ch-1',
+            '1.1',
+            '1.2',
+            '1.2.1',
+            'ch-2',
+            '2.1',
+          ]);
+        });
+
+        it('nextSibling() and parent() follow the tree', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('1.1');
+          nav.nextSibling();
+          expect(nav.current).toBe('1.2');
+          nav.parent();
+          expect(nav.current).toBe('ch-1');
+        });
+      });
+
+      describe('postorder', () => {
+        it('visits children before their parent', () => {
+          const nav = createNavigator({ items, order: 'postorder' });
+          expect(walk(nav)).toEqual([
+            '1.1',
+            '1.2.1',
+            '1.2',
+            'ch-1',
+            '2.1',
+            'ch-2',
+          ]);
+          expect(nav.current).toBe('1.1');
+        });
+
+        it('nextSibling() lands on the sibling itself', () => {
+          const nav = createNavigator({ items, order: 'postorder' });
+          nav.goToSlug('1.1');
+          nav.nextSibling();
+          expect(nav.current).toBe('1.2');
+
+          nav.nextSibling(); // last child - climbs to ch-2
+          expect(nav.current).toBe('ch-2');
+        });
+
+        it('parent() and firstChild() follow the tree', () => {
+          const nav = createNavigator({ items, order: 'postorder' });
+          nav.goToSlug('1.2.1');
+          nav.parent();
+          expect(nav.current).toBe('1.2');
+          nav.parent();
+          expect(nav.current).toBe('ch-1');
+          expect(nav.currentIndex).toBe(3);
+          nav.firstChild();
+          expect(nav.current).toBe('1.1');
+        });
+
+        it('lands on the first visible descendant with leavesOnly', () => {
+          const nav = createNavigator({
+            items,
+            order: 'postorder',
+            leavesOnly: true,
+          });
+          expect(walk(nav)).toEqual(['1.1', '1.2.1', '2.1']);
+
+          nav.goToSlug('1.2.1');
+          nav.nextSibling();
+          expect(nav.current).toBe('2.1');
+        });
+      });
+
+      describe('breadth-first', () => {
+        it('visits all nodes of a level before going deeper', () => {
+          const nav = createNavigator({ items, order: 'breadth-first' });
+          expect(walk(nav)).toEqual([
+            'ch-1',
+            'ch-2',
+            '1.1',
+            '1.2',
+            '2.1',
+            '1.2.1',
+          ]);
+        });
+
+        it('next() walks top-level sections first', () => {
+          const nav = createNavigator({ items, order: 'breadth-first' });
+          nav.next();
+          expect(nav.current).toBe('ch-2');
+        });
+
+        it('nextSibling() and parent() follow the tree', () => {
+          const nav = createNavigator({ items, order: 'breadth-first' });
+          nav.goToSlug('1.2');
+          nav.nextSibling();
+          expect(nav.current).toBe('ch-2');
+          expect(nav.currentIndex).toBe(1);
+
+          nav.goToSlug('1.2.1');
+          nav.parent();
+          expect(nav.current).toBe('1.2');
+        });
+
+        it('skips collapsed subtrees', () => {
+          const nav = createNavigator({ items, order: 'breadth-first' });
+          nav.collapse('ch-1');
+          expect(walk(nav)).toEqual(['ch-1', 'ch-2', '2.1']);
+        });
+      });
+
+      describe('custom sequence', () => {
+        const order = ['ch-2', '2.1', 'ch-1/1.2/1.2.1', '1.1'];
+
+        it('visits exactly the listed paths or slugs in order', () => {
+          const nav = createNavigator({ items, order });
+          expect(walk(nav)).toEqual(['ch-2', '2.1', '1.2.1', '1.1']);
+        });
+
+        it('ignores unknown and repeated entries', () => {
+          const nav = createNavigator({
+            items,
+            order: ['missing', '2.1', '2.1', 'ch-1'],
+          });
+          expect(walk(nav)).toEqual(['2.1', 'ch-1']);
+        });
+
+        it('nextSibling() lands on the first listed descendant', () => {
+          const nav = createNavigator({ items, order });
+          nav.goToSlug('1.1');
+          nav.nextSibling();
+          expect(nav.current).toBe('1.2.1');
+        });
+
+        it('sibling moves skip unlisted siblings', () => {
+          const nav = createNavigator({
+            items: ['a', 'b', 'c', 'd'],
+            order: ['b', 'd', 'a'],
+          });
+          nav.goToSlug('b');
+          nav.nextSibling();
+          expect(nav.current).toBe('d');
+          nav.prevSibling();
+          expect(nav.current).toBe('b');
+        });
+
+        it('parent() only moves to listed parents', () => {
+          const nav = createNavigator({ items, order });
+          nav.goToSlug('2.1');
+          nav.parent();
+          expect(nav.current).toBe('ch-2');
+
+          nav.goToSlug('1.2.1');
+          nav.parent();
+          expect(nav.current).toBe('1.2.1');
+        });
+      });
+    });
+
+    describe('depth and child moves', () => {
+      const items: NavItem[] = [
+        {
+          slug: 'ch-1',
+          children: [
+            { slug: 's-1.1', children: ['p-1.1.1', 'p-1.1.2'] },
+            { slug: 's-1.2', children: ['p-1.2.1'] },
+          ],
+        },
+        {
+          slug: 'ch-2',
+          children: [{ slug: 's-2.1', children: ['p-2.1.1'] }, 'p-2.2'],
+        },
+      ];
+
+      describe('nextAtDepth()/prevAtDepth()', () => {
+        it('jumps between chapters and sections', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('p-1.1.2');
+
+          nav.nextAtDepth(1);
+          expect(nav.current).toBe('s-1.2');
+          nav.nextAtDepth(0);
+          expect(nav.current).toBe('ch-2');
+          nav.nextAtDepth(1);
+          expect(nav.current).toBe('s-2.1');
+        });
+
+        it('prevAtDepth() returns to the current group start first', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('p-1.2.1');
+
+          nav.prevAtDepth(1);
+          expect(nav.current).toBe('s-1.2');
+          nav.prevAtDepth(1);
+          expect(nav.current).toBe('s-1.1');
+        });
+
+        it('wraps by default', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('ch-2');
+
+          nav.nextAtDepth(0);
+          expect(nav.current).toBe('ch-1');
+          nav.prevAtDepth(0);
+          expect(nav.current).toBe('ch-2');
+        });
+
+        it('stops at the ends when wrap=false', () => {
+          const nav = createNavigator({ items, wrap: false });
+          nav.goToSlug('ch-2');
+
+          nav.nextAtDepth(0);
+          expect(nav.current).toBe('ch-2');
+
+          nav.reset();
+          nav.prevAtDepth(0);
+          expect(nav.current).toBe('ch-1');
+        });
+
+        it('lands on the first leaf inside the target with leavesOnly', () => {
+          const nav = createNavigator({ items, leavesOnly: true });
+          expect(nav.current).toBe('p-1.1.1');
+
+          nav.nextAtDepth(0);
+          expect(nav.current).toBe('p-2.1.1');
+          nav.nextAtDepth(1);
+          expect(nav.current).toBe('p-2.2');
+          nav.prevAtDepth(0);
+          expect(nav.current).toBe('p-2.1.1');
+        });
+
+        it('ignores depths that do not exist', () => {
+          const nav = createNavigator({ items });
+          nav.nextAtDepth(7);
+          nav.nextAtDepth(-1);
+          expect(nav.current).toBe('ch-1');
+        });
+      });
+
+      describe('nextAtSameDepth()/prevAtSameDepth()', () => {
+        it('moves between nodes at the current depth', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('p-1.1.2');
+
+          nav.nextAtSameDepth();
+          expect(nav.current).toBe('p-1.2.1');
+          nav.nextAtSameDepth();
+          expect(nav.current).toBe('p-2.1.1');
+          nav.prevAtSameDepth();
+          expect(nav.current).toBe('p-1.2.1');
+        });
+      });
+
+      describe('lastChild()', () => {
+        it('goes to the last child', () => {
+          const nav = createNavigator({ items });
+          nav.lastChild();
+          expect(nav.current).toBe('s-1.2');
+        });
+
+        it('does nothing on a leaf', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('p-2.2');
+          nav.lastChild();
+          expect(nav.current).toBe('p-2.2');
+        });
+      });
+
+      describe('nthChild()', () => {
+        it('goes to the child at a 0-based index', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('s-1.1');
+          nav.nthChild(1);
+          expect(nav.current).toBe('p-1.1.2');
+        });
+
+        it('ignores out of range indices', () => {
+          const nav = createNavigator({ items });
+          nav.nthChild(5);
+          nav.nthChild(-1);
+          expect(nav.current).toBe('ch-1');
+        });
+      });
+
+      describe('firstSibling()/lastSibling()', () => {
+        it('moves to the ends of the sibling list', () => {
+          const nav = createNavigator({ items });
+          nav.goToSlug('p-1.1.1');
+
+          nav.lastSibling();
+          expect(nav.current).toBe('p-1.1.2');
+          nav.firstSibling();
+          expect(nav.current).toBe('p-1.1.1');
+        });
+
+        it('works at root level', () => {
+          const nav = createNavigator({ items });
+          nav.lastSibling();
+          expect(nav.current).toBe('ch-2');
+        });
+
+        it('lands on leaves inside branch siblings with leavesOnly', () => {
+          const nav = createNavigator({ items, leavesOnly: true });
+          nav.goToSlug('p-2.2');
+
+          nav.firstSibling();
+          expect(nav.current).toBe('p-2.1.1');
+        });
+      });
+    });
+
+    describe('selection', () => {
+      function makeItems(): NavItem[] {
+        return [
+          { slug: 'a', children: ['a1', 'a2'] },
+          'b',
+          { slug: 'c', children: ['c1'] },
+        ];
+      }
+      const items = makeItems();
+
+      it('starts empty', () => {
+        const nav = createNavigator({ items });
+        expect(nav.selection).toEqual([]);
+        expect(nav.selectionAnchor).toBeNull();
+      });
+
+      it('select() replaces the selection and sets the anchor', () => {
+        const nav = createNavigator({ items });
+        nav.select('a1');
+        nav.select('b');
+
+        expect(nav.selection).toEqual(['b']);
+        expect(nav.selectionAnchor).toBe('b');
+        expect(nav.isSelected('b')).toBe(true);
+        expect(nav.isSelected('a1')).toBe(false);
+      });
+
+      it('toggleSelect() adds and removes items', () => {
+        const nav = createNavigator({ items });
+        nav.toggleSelect('c1');
+        nav.toggleSelect('a');
+        expect(nav.selection).toEqual(['a', 'c1']);
+
+        nav.toggleSelect('c1');
+        expect(nav.selection).toEqual(['a']);
+        expect(nav.selectionAnchor).toBe('c1');
+      });
+
+      it('keeps the selection list until the selection or tree changes', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.select('c1');
+        const selection = nav.selection;
+
+        nav.next();
+        expect(nav.selection).toBe(selection);
+        expect(nav.selectedPaths).toEqual(['c/c1']);
+
+        nav.move('c', null, 0);
+        expect(nav.selection).toEqual(['c1']);
+        nav.toggleSelect('a1');
+        expect(nav.selection).toEqual(['c1', 'a1']);
+      });
+
+      it('selectRange() selects visible items in flat order', () => {
+        const nav = createNavigator({ items });
+        nav.selectRange('b', 'a1');
+
+        expect(nav.selection).toEqual(['a1', 'a2', 'b']);
+        expect(nav.selectionAnchor).toBe('b');
+      });
+
+      it('selectRange() skips collapsed items', () => {
+        const nav = createNavigator({ items, expanded: ['c'] });
+        nav.selectRange('a', 'c1');
+        expect(nav.selection).toEqual(['a', 'b', 'c', 'c1']);
+      });
+
+      it('extendSelection() ranges from the anchor like shift-click', () => {
+        const nav = createNavigator({ items });
+        nav.select('a2');
+        nav.extendSelection('c');
+        expect(nav.selection).toEqual(['a2', 'b', 'c']);
+
+        // Shrinking keeps the anchor
+        nav.extendSelection('a1');
+        expect(nav.selection).toEqual(['a1', 'a2']);
+        expect(nav.selectionAnchor).toBe('a2');
+      });
+
+      it('extendSelection() without an anchor selects the item', () => {
+        const nav = createNavigator({ items });
+        nav.extendSelection('b');
+        expect(nav.selection).toEqual(['b']);
+        expect(nav.selectionAnchor).toBe('b');
+      });
+
+      it('selectSubtree() includes collapsed descendants', () => {
+        const nav = createNavigator({ items, expanded: false });
+        nav.selectSubtree('a');
+        expect(nav.selection).toEqual(['a', 'a1', 'a2']);
+      });
+
+      it('clearSelection() empties the selection', () => {
+        const nav = createNavigator({ items });
+        nav.selectSubtree('a');
+        nav.clearSelection();
+
+        expect(nav.selection).toEqual([]);
+        expect(nav.selectionAnchor).toBeNull();
+      });
+
+      it('ignores unknown slugs', () => {
+        const nav = createNavigator({ items });
+        nav.select('a');
+        nav.select('missing');
+        nav.selectRange('a', 'missing');
+        expect(nav.selection).toEqual(['a']);
+      });
+
+      it('does not move the cursor', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, onChange });
+        nav.selectRange('a', 'c1');
+
+        expect(nav.current).toBe('a');
+        expect(onChange).not.toHaveBeenCalled();
+      });
+
+      it('fires onSelectionChange only when the selection changes', () => {
+        const onSelectionChange = vi.fn();
+        const nav = createNavigator({ items, onSelectionChange });
+
+        nav.select('b');
+        nav.select('b');
+        nav.toggleSelect('c');
+        nav.clearSelection();
+        nav.clearSelection();
+
+        expect(onSelectionChange.mock.calls).toEqual([
+          [['b']],
+          [['b', 'c']],
+          [[]],
+        ]);
+      });
+
+      it('drops removed items', () => {
+        const onSelectionChange = vi.fn();
+        const nav = createNavigator({
+          items: makeItems(),
+          onSelectionChange,
+        });
+        nav.selectSubtree('a');
+        nav.remove('a');
+
+        expect(nav.selection).toEqual([]);
+        expect(nav.selectionAnchor).toBeNull();
+        expect(onSelectionChange).toHaveBeenLastCalledWith([]);
+      });
+
+      it('follows moved items', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.select('a1');
+        nav.move('a1', 'c', 1);
+
+        expect(nav.selection).toEqual(['a1']);
+        expect(nav.selectedPaths).toEqual(['c/a1']);
+      });
+
+      it('keeps items whose path survives setItems()', () => {
+        const onSelectionChange = vi.fn();
+        const nav = createNavigator({ items, onSelectionChange });
+        nav.selectRange('a1', 'b');
+        onSelectionChange.mockClear();
+
+        nav.setItems([{ slug: 'a', children: ['a1'] }, 'b']);
+        expect(nav.selection).toEqual(['a1', 'b']);
+        expect(nav.selectionAnchor).toBe('a1');
+        expect(onSelectionChange).toHaveBeenCalledWith(['a1', 'b']);
+
+        onSelectionChange.mockClear();
+        nav.setItems([{ slug: 'a', children: ['a1'] }, 'b']);
+        expect(onSelectionChange).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('marks', () => {
+      function makeItems(): NavItem[] {
+        return [
+          { slug: 'guides', children: ['install', 'usage'] },
+          { slug: 'api', children: ['client'] },
+        ];
+      }
+
+      it('sets marks on the current item or a slug and jumps back', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items: makeItems(), onChange });
+        nav.goToSlug('usage');
+        nav.setMark('a');
+        nav.setMark('b', 'client');
+        nav.setMark('c', 'missing');
+        onChange.mockClear();
+
+        nav.jumpToMark('b');
+        expect(nav.current).toBe('client');
+        expect(onChange).toHaveBeenCalledWith('usage', 'client', 4, undefined);
+
+        nav.jumpToMark('a');
+        expect(nav.current).toBe('usage');
+        expect(nav.marks).toEqual([
+          { name: 'a', slug: 'usage', path: 'guides/usage', stale: false },
+          { name: 'b', slug: 'client', path: 'api/client', stale: false },
+        ]);
+      });
+
+      it('records jumps in history', () => {
+        const nav = createNavigator({ items: makeItems(), history: true });
+        nav.setMark('a', 'client');
+
+        nav.jumpToMark('a');
+        nav.back();
+        expect(nav.current).toBe('guides');
+      });
+
+      it('blocks jumps to unknown and hidden marks', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const blocked = vi.fn();
+        nav.on('blocked', blocked);
+        nav.setMark('a', 'install');
+        nav.collapse('guides');
+
+        nav.jumpToMark('a');
+        nav.jumpToMark('z');
+        expect(blocked.mock.calls.map(([event]) => event.cause)).toEqual([
+          'jumpToMark',
+          'jumpToMark',
+        ]);
+        expect(nav.current).toBe('guides');
+      });
+
+      it('clearMark() forgets a mark', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.setMark('a');
+        nav.clearMark('a');
+        expect(nav.marks).toEqual([]);
+      });
+
+      it('survives setItems() while the slug exists, else goes stale', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.setMark('a', 'client');
+        nav.setMark('b', 'usage');
+
+        nav.setItems([{ slug: 'reference', children: ['client'] }, 'install']);
+        expect(nav.marks).toEqual([
+          { name: 'a', slug: 'client', path: 'reference/client', stale: false },
+          { name: 'b', slug: 'usage', path: 'guides/usage', stale: true },
+        ]);
+
+        nav.jumpToMark('a');
+        expect(nav.currentPath).toBe('reference/client');
+
+        // A stale mark comes back with its slug
+        nav.setItems(makeItems());
+        expect(nav.marks.every((mark) => !mark.stale)).toBe(true);
+      });
+
+      it('follows renames', () => {
+        const nav = createNavigator({ items: makeItems() });
+        nav.setMark('a', 'usage');
+
+        nav.rename('usage', 'using');
+        nav.rename('guides', 'docs');
+        expect(nav.marks[0]).toMatchObject({ slug: 'using', stale: false });
+        nav.jumpToMark('a');
+        expect(nav.currentPath).toBe('docs/using');
+      });
+
+      it('round-trips through serialize()', () => {
+        const nav = createNavigator({ items: makeItems() });
+        expect(nav.serialize().marks).toBeUndefined();
+
+        nav.setMark('a', 'client');
+        const state = nav.serialize();
+        expect(state.marks).toEqual({
+          a: { path: 'api/client', slug: 'client' },
+        });
+
+        const next = createNavigator({
+          items: makeItems(),
+          initialState: state,
+        });
+        next.jumpToMark('a');
+        expect(next.current).toBe('client');
+
+        next.restore({ ...state, marks: {} });
+        expect(next.marks).toEqual([]);
+      });
+    });
+
+    describe('findNext()', () => {
+      const items: NavItem<{ title: string }>[] = [
+        { slug: 'apple', data: { title: 'Banana split' } },
+        { slug: 'avocado', data: { title: 'Cherry pie' } },
+        { slug: 'blueberry', data: { title: 'Apple crumble' } },
+        { slug: 'apricot', data: { title: 'Apricot jam' } },
+      ];
+
+      it('finds the next slug with a prefix, case-insensitively', () => {
+        const nav = createNavigator({ items });
+        expect(nav.findNext('A')).toBe(1);
+        expect(nav.findNext('ap', { from: 1 })).toBe(3);
+      });
+
+      it('does not move the cursor', () => {
+        const nav = createNavigator({ items });
+        nav.findNext('b');
+        expect(nav.current).toBe('apple');
+      });
+
+      it('accepts a predicate', () => {
+        const nav = createNavigator({ items });
+        expect(nav.findNext((slug) => slug.endsWith('y'))).toBe(2);
+      });
+
+      it('searches backward', () => {
+        const nav = createNavigator({ items });
+        nav.goTo(3);
+        expect(nav.findNext('a', { direction: 'backward' })).toBe(1);
+      });
+
+      it('wraps according to the navigator by default', () => {
+        const nav = createNavigator({ items });
+        expect(nav.findNext('apple', { from: 0 })).toBe(0);
+
+        const nowrap = createNavigator({ items, wrap: false });
+        expect(nowrap.findNext('apple', { from: 0 })).toBe(-1);
+        expect(nowrap.findNext('apple', { from: 0, wrap: true })).toBe(0);
+      });
+
+      it('matches against a label accessor', () => {
+        const nav = createNavigator({ items });
+        const label = (_slug: string, data?: { title: string }) =>
+          data?.title ?? '';
+        expect(nav.findNext('apple', { label })).toBe(2);
+      });
+
+      it('only searches visible nodes', () => {
+        const nav = createNavigator({
+          items: [{ slug: 'docs', children: ['install'] }, 'intro'],
+          expanded: false,
+        });
+        expect(nav.findNext('in')).toBe(1);
+        expect(nav.findNext('missing')).toBe(-1);
+      });
+    });
+
+    describe('createTypeahead()', () => {
+      const items = ['apple', 'avocado', 'banana', 'blueberry', 'cherry'];
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('jumps to the next item starting with a character', () => {
+        const nav = createNavigator({ items });
+        const typeahead = createTypeahead(nav);
+
+        expect(typeahead.type('b')).toBe(true);
+        expect(nav.current).toBe('banana');
+      });
+
+      it('narrows the match as characters are typed', () => {
+        const nav = createNavigator({ items });
+        const typeahead = createTypeahead(nav);
+
+        typeahead.type('b');
+        typeahead.type('l');
+        expect(nav.current).toBe('blueberry');
+        expect(typeahead.buffer).toBe('bl');
+      });
+
+      it('keeps the current item while it still matches', () => {
+        const nav = createNavigator({ items });
+        const typeahead = createTypeahead(nav);
+
+        typeahead.type('a');
+        typeahead.type('v');
+        expect(nav.current).toBe('avocado');
+      });
+
+      it('cycles through items when one character is repeated', () => {
+        const nav = createNavigator({ items });
+        const typeahead = createTypeahead(nav);
+
+        typeahead.type('b');
+        typeahead.type('b');
+        expect(nav.current).toBe('blueberry');
+        typeahead.type('b');
+        expect(nav.current).toBe('banana');
+      });
+
+      it('starts a new search after the timeout', () => {
+        const nav = createNavigator({ items });
+        const typeahead = createTypeahead(nav, { timeout: 300 });
+
+        typeahead.type('b');
+        vi.advanceTimersByTime(301);
+        expect(typeahead.buffer).toBe('');
+        typeahead.type('c');
+        expect(typeahead.buffer).toBe('c');
+        expect(nav.current).toBe('cherry');
+      });
+
+      it('ignores named keys and a leading space', () => {
+        const nav = createNavigator({ items });
+        const typeahead = createTypeahead(nav);
+
+        expect(typeahead.type('ArrowDown')).toBe(false);
+        expect(typeahead.type(' ')).toBe(false);
+        expect(typeahead.buffer).toBe('');
+      });
+
+      it('moves through onChange and matches labels', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({
+          items: [
+            { slug: 'a', data: { title: 'Zebra' } },
+            { slug: 'b', data: { title: 'Yak' } },
+          ],
+          onChange,
+        });
+        const typeahead = createTypeahead(nav, {
+          label: (_slug, data) => data?.title ?? '',
+        });
+
+        typeahead.type('y');
+        expect(onChange).toHaveBeenCalledWith('a', 'b', 1, { title: 'Yak' });
+      });
+
+      it('reset() clears the buffer', () => {
+        const nav = createNavigator({ items });
+        const typeahead = createTypeahead(nav);
+        typeahead.type('a');
+        typeahead.reset();
+        expect(typeahead.buffer).toBe('');
+      });
+    });
+
+    describe('goTo()', () => {
+      it('jumps to specific index', () => {
+        const nav = createNavigator({ items: ['a', 'b', 'c'] });
+
+        nav.goTo(2);
+        expect(nav.current).toBe('c');
+        expect(nav.currentIndex).toBe(2);
+      });
+
+      it('ignores invalid indices', () => {
+        const nav = createNavigator({ items: ['a', 'b'] });
+
+        nav.goTo(-1);
+        expect(nav.currentIndex).toBe(0);
+
+        nav.goTo(999);
+        expect(nav.currentIndex).toBe(0);
+      });
+    });
+
+    describe('reset()', () => {
+      it('resets to first item', () => {
+        const nav = createNavigator({ items: ['a', 'b', 'c'] });
+        nav.goTo(2);
+
+        nav.reset();
+        expect(nav.current).toBe('a');
+        expect(nav.currentIndex).toBe(0);
+      });
+
+      it('handles empty list', () => {
+        const nav = createNavigator({ items: [] });
+        nav.reset();
+        expect(nav.current).toBeNull();
+        expect(nav.currentIndex).toBe(-1);
+      });
+    });
+
+    describe('onChange callback', () => {
+      it('fires on navigation', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items: ['a', 'b'], onChange });
+
+        nav.next();
+
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenCalledWith('a', 'b', 1, undefined);
+      });
+
+      it('provides correct prev/next slugs', () => {
+        const calls: Array<{
+          prev: string | null;
+          next: string | null;
+          index: number;
+        }> = [];
+        const onChange = (
+          prev: string | null,
+          next: string | null,
+          index: number
+        ) => {
+          calls.push({ prev, next, index });
+        };
+
+        const nav = createNavigator({ items: ['a', 'b', 'c'], onChange });
+
+        nav.next();
+        nav.next();
+        nav.prev();
+
+        expect(calls).toEqual([
+          { prev: 'a', next: 'b', index: 1 },
+          { prev: 'b', next: 'c', index: 2 },
+          { prev: 'c', next: 'b', index: 1 },
+        ]);
+      });
+    });
+
+    describe('events', () => {
+      const items: NavItem[] = [
+        { slug: 'a', children: ['a1'] },
+        'b',
+      ];
+
+      it("on('change') reports the move that caused it", () => {
+        const nav = createNavigator<string>({
+          items: [{ slug: 'a', children: [{ slug: 'a1', data: 'x' }] }, 'b'],
+        });
+        const listener = vi.fn();
+        nav.on('change', listener);
+
+        nav.next();
+        expect(listener).toHaveBeenCalledWith({
+          prev: 'a',
+          prevPath: 'a',
+          next: 'a1',
+          nextPath: 'a/a1',
+          index: 1,
+          data: 'x',
+          cause: 'next',
+        });
+
+        nav.parent();
+        nav.goToSlug('b');
+        nav.collapse('a');
+        expect(listener.mock.calls.map(([event]) => event.cause)).toEqual([
+          'next',
+          'parent',
+          'goToSlug',
+        ]);
+      });
+
+      it('reports cursor moves caused by expansion, filter and edits', () => {
+        const nav = createNavigator({
+          items: [{ slug: 'a', children: ['a1', 'a2'] }, 'b'],
+        });
+        const causes: string[] = [];
+        nav.on('change', (event) => causes.push(event.cause));
+
+        nav.goToSlug('a1');
+        nav.collapse('a');
+        nav.expand('a');
+        nav.goToSlug('a2');
+        nav.setFilter((slug) => slug !== 'a2');
+        nav.remove('a');
+
+        expect(causes).toEqual([
+          'goToSlug',
+          'collapse',
+          'goToSlug',
+          'setFilter',
+          'remove',
+        ]);
+      });
+
+      it('supports several listeners and unsubscribing', () => {
+        const nav = createNavigator({ items });
+        const first = vi.fn();
+        const second = vi.fn();
+        const off = nav.on('change', first);
+        nav.on('change', second);
+
+        nav.next();
+        off();
+        nav.next();
+
+        expect(first).toHaveBeenCalledTimes(1);
+        expect(second).toHaveBeenCalledTimes(2);
+      });
+
+      it('still calls onChange alongside listeners', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, onChange });
+        const listener = vi.fn();
+        nav.on('change', listener);
+
+        nav.next();
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledTimes(1);
+      });
+
+      it("fires 'boundary' when next() hits the end with wrap=false", () => {
+        const nav = createNavigator({ items, wrap: false });
+        const boundary = vi.fn();
+        const change = vi.fn();
+        nav.on('boundary', boundary);
+        nav.on('change', change);
+
+        nav.goToSlug('b');
+        change.mockClear();
+        nav.next();
+
+        expect(boundary).toHaveBeenCalledWith({
+          cause: 'next',
+          direction: 'forward',
+          index: 2,
+        });
+        expect(change).not.toHaveBeenCalled();
+
+        nav.reset();
+        nav.prev();
+        expect(boundary).toHaveBeenLastCalledWith({
+          cause: 'prev',
+          direction: 'backward',
+          index: 0,
+        });
+      });
+
+      it("fires 'wrap' when a move continues from the other end", () => {
+        const nav = createNavigator({ items });
+        const wrapListener = vi.fn();
+        nav.on('wrap', wrapListener);
+
+        nav.prev();
+        expect(wrapListener).toHaveBeenCalledWith({
+          cause: 'prev',
+          direction: 'backward',
+          from: 0,
+          to: 2,
+        });
+        expect(nav.current).toBe('b');
+
+        nav.nextSibling();
+        expect(wrapListener).toHaveBeenLastCalledWith({
+          cause: 'nextSibling',
+          direction: 'forward',
+          from: 2,
+          to: 0,
+        });
+
+        nav.nextAtDepth(0);
+        expect(wrapListener).toHaveBeenCalledTimes(2);
+        nav.nextAtDepth(0);
+        expect(wrapListener).toHaveBeenCalledTimes(3);
+      });
+
+      it("fires 'blocked' when a move has no target", () => {
+        const nav = createNavigator({ items, history: true });
+        const causes: string[] = [];
+        nav.on('blocked', (event) => causes.push(event.cause));
+
+        nav.parent();
+        nav.goToSlug('b');
+        nav.firstChild();
+        nav.goToSlug('missing');
+        nav.goTo(99);
+        nav.forward();
+
+        expect(causes).toEqual([
+          'parent',
+          'firstChild',
+          'goToSlug',
+          'goTo',
+          'forward',
+        ]);
+      });
+
+      it('does not fire change when a move stays put', () => {
+        const nav = createNavigator({ items });
+        const change = vi.fn();
+        nav.on('change', change);
+
+        nav.goToSlug('a');
+        nav.reset();
+        expect(change).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('lazy children', () => {
+      function deferred() {
+        let resolve!: (items: NavItem[]) => void;
+        let reject!: (error: unknown) => void;
+        const promise = new Promise<NavItem[]>((res, rej) => {
+          resolve = res;
+          reject = rej;
+        });
+        return { promise, resolve, reject };
+      }
+
+      function makeItems(loader: () => Promise<NavItem[]>): NavItem[] {
+        return ['intro', { slug: 'api', children: loader }, 'outro'];
+      }
+
+      const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+      it('treats an unloaded branch as a single item', () => {
+        const loader = vi.fn(() => Promise.resolve(['a', 'b']));
+        const nav = createNavigator({ items: makeItems(loader) });
+
+        expect(nav.count).toBe(3);
+        expect(nav.isLoaded('api')).toBe(false);
+        expect(nav.isLoaded('intro')).toBe(true);
+        expect(hasLoader(nav.root[1])).toBe(true);
+        expect(loader).not.toHaveBeenCalled();
+      });
+
+      it('next() loads the branch and continues the move', async () => {
+        const load = deferred();
+        const nav = createNavigator({ items: makeItems(() => load.promise) });
+        nav.goToSlug('api');
+
+        nav.next();
+        expect(nav.loading).toBe(true);
+        expect(nav.current).toBe('api');
+
+        load.resolve(['a', 'b']);
+        await flush();
+
+        expect(nav.loading).toBe(false);
+        expect(nav.current).toBe('a');
+        expect(nav.count).toBe(5);
+        expect(nav.isLoaded('api')).toBe(true);
+        expect(flattenSlugs(nav.root)).toEqual([
+          'intro',
+          'api',
+          'a',
+          'b',
+          'outro',
+        ]);
+      });
+
+      it('firstChild() and lastChild() load first', async () => {
+        const nav = createNavigator({
+          items: makeItems(() => Promise.resolve(['a', 'b'])),
+        });
+        nav.goToSlug('api');
+
+        nav.lastChild();
+        await flush();
+        expect(nav.current).toBe('b');
+      });
+
+      it('does not continue if the cursor moved meanwhile', async () => {
+        const load = deferred();
+        const nav = createNavigator({ items: makeItems(() => load.promise) });
+        nav.goToSlug('api');
+
+        nav.firstChild();
+        nav.goToSlug('outro');
+        load.resolve(['a']);
+        await flush();
+
+        expect(nav.current).toBe('outro');
+        expect(nav.count).toBe(4);
+      });
+
+      it('de-duplicates concurrent loads', async () => {
+        const loader = vi.fn(() => Promise.resolve(['a']));
+        const nav = createNavigator({ items: makeItems(loader) });
+
+        await Promise.all([nav.load('api'), nav.load('api'), nav.load('api')]);
+        nav.goToSlug('api');
+        nav.firstChild();
+        await flush();
+
+        expect(loader).toHaveBeenCalledTimes(1);
+        expect(nav.current).toBe('a');
+      });
+
+      it('keeps the cursor on its node when an earlier branch loads', async () => {
+        const nav = createNavigator({
+          items: makeItems(() => Promise.resolve(['a', 'b'])),
+        });
+        nav.goToSlug('outro');
+        expect(nav.currentIndex).toBe(2);
+
+        await nav.load('api');
+        expect(nav.current).toBe('outro');
+        expect(nav.currentIndex).toBe(4);
+      });
+
+      it('does not load collapsed branches on next()', async () => {
+        const loader = vi.fn(() => Promise.resolve(['a']));
+        const nav = createNavigator({
+          items: makeItems(loader),
+          expanded: false,
+        });
+        nav.goToSlug('api');
+
+        nav.next();
+        expect(nav.current).toBe('outro');
+        expect(loader).not.toHaveBeenCalled();
+
+        nav.expand('api');
+        await flush();
+        expect(loader).toHaveBeenCalledTimes(1);
+        expect(nav.count).toBe(4);
+      });
+
+      it('loads a branch the cursor lands on with leavesOnly', async () => {
+        const nav = createNavigator({
+          items: makeItems(() => Promise.resolve(['a', 'b'])),
+          leavesOnly: true,
+        });
+
+        nav.next();
+        expect(nav.current).toBe('api');
+        await flush();
+        expect(nav.current).toBe('a');
+      });
+
+      it('loads nested lazy branches', async () => {
+        const nav = createNavigator({
+          items: makeItems(() =>
+            Promise.resolve([
+              { slug: 'inner', children: () => Promise.resolve(['deep']) },
+            ])
+          ),
+        });
+        nav.goToSlug('api');
+
+        nav.next();
+        await flush();
+        expect(nav.current).toBe('inner');
+        nav.next();
+        await flush();
+        expect(nav.current).toBe('deep');
+        expect(nav.currentPath).toBe('api/inner/deep');
+      });
+
+      it('reports loading through load events', async () => {
+        const nav = createNavigator({
+          items: makeItems(() => Promise.resolve(['a'])),
+        });
+        const states: string[] = [];
+        nav.on('load', ({ slug, state }) => states.push(`${slug}:${state}`));
+
+        await nav.load('api');
+        expect(states).toEqual(['api:loading', 'api:loaded']);
+      });
+
+      it('leaves the branch unloaded when the loader fails', async () => {
+        let fail = true;
+        const nav = createNavigator({
+          items: makeItems(() =>
+            fail
+              ? Promise.reject(new Error('offline'))
+              : Promise.resolve(['a'])
+          ),
+        });
+        const errors: unknown[] = [];
+        nav.on('load', (event) => {
+          if (event.state === 'error') errors.push(event.error);
+        });
+        nav.goToSlug('api');
+
+        nav.next();
+        await flush();
+        expect(nav.loading).toBe(false);
+        expect(errors).toEqual([new Error('offline')]);
+        await expect(nav.load('api')).rejects.toThrow('offline');
+
+        fail = false;
+        nav.goToSlug('api');
+        nav.firstChild();
+        await flush();
+        expect(nav.current).toBe('a');
+      });
+
+      it('moves past a branch whose load failed on next()', async () => {
+        const loader = vi.fn(() => Promise.reject(new Error('offline')));
+        const nav = createNavigator({ items: makeItems(loader) });
+        nav.goToSlug('api');
+
+        nav.next();
+        await flush();
+        expect(nav.current).toBe('outro');
+        expect(loader).toHaveBeenCalledTimes(1);
+
+        nav.goToSlug('api');
+        nav.next();
+        expect(nav.current).toBe('outro');
+        expect(loader).toHaveBeenCalledTimes(1);
+
+        nav.goToSlug('api');
+        nav.firstChild();
+        await flush();
+        expect(loader).toHaveBeenCalledTimes(2);
+        expect(nav.current).toBe('api');
+      });
+
+      it('ignores results for branches removed while loading', async () => {
+        const load = deferred();
+        const nav = createNavigator({ items: makeItems(() => load.promise) });
+        const pending = nav.load('api');
+
+        nav.remove('api');
+        load.resolve(['a']);
+        await pending;
+
+        expect(flattenSlugs(nav.root)).toEqual(['intro', 'outro']);
+        expect(nav.count).toBe(2);
+      });
+
+      it('cannot insert into an unloaded branch', () => {
+        const nav = createNavigator({
+          items: makeItems(() => Promise.resolve([])),
+        });
+        nav.insert('api', 0, 'x');
+        expect(nav.count).toBe(3);
+      });
+    });
+
+    describe('createEditSession()', () => {
+      function makeItems(): NavItem[] {
+        return [
+          { slug: 'guides', children: ['install', 'usage'] },
+          { slug: 'api', children: [] },
+          'faq',
+        ];
+      }
+
+      it('edits a copy and leaves the input alone', () => {
+        const items = makeItems();
+        const session = createEditSession(items);
+
+        expect(session.insert('api', 0, 'reference')).toBe(true);
+        expect(session.move('faq', 'guides', 0)).toBe(true);
+        expect(session.rename('usage', 'using')).toBe(true);
+        expect(session.remove('install')).toBe(true);
+
+        expect(session.export()).toEqual([
+          { slug: 'guides', children: ['faq', 'using'] },
+          { slug: 'api', children: ['reference'] },
+        ]);
+        expect(items).toEqual(makeItems());
+        expect(session.original).toEqual(makeItems());
+      });
+
+      it('undoes and redoes edits in order', () => {
+        const session = createEditSession(makeItems());
+        session.move('install', null, 0);
+        session.rename('install', 'setup');
+        session.remove('guides');
+        const edited = session.export();
+
+        expect(session.undo()).toBe(true);
+        expect(session.undo()).toBe(true);
+        expect(session.export()).toEqual([
+          'install',
+          { slug: 'guides', children: ['usage'] },
+          { slug: 'api', children: [] },
+          'faq',
+        ]);
+        expect(session.canRedo).toBe(true);
+
+        session.redo();
+        session.redo();
+        expect(session.export()).toEqual(edited);
+        expect(session.redo()).toBe(false);
+
+        while (session.undo());
+        expect(session.export()).toEqual(makeItems());
+        expect(session.canUndo).toBe(false);
+      });
+
+      it('drops the redo stack on a new edit', () => {
+        const session = createEditSession(makeItems());
+        session.remove('faq');
+        session.undo();
+
+        session.remove('api');
+        expect(session.canRedo).toBe(false);
+        expect(session.log).toEqual([{ type: 'remove', slug: 'api' }]);
+      });
+
+      it('rejects edits that do not fit the tree', () => {
+        const session = createEditSession(makeItems());
+
+        expect(session.insert('faq', 0, 'x')).toBe(false); // leaf parent
+        expect(session.insert(null, 0, 'usage')).toBe(false); // duplicate
+        expect(session.remove('missing')).toBe(false);
+        expect(session.move('guides', 'guides', 0)).toBe(false);
+        expect(session.rename('install', 'faq')).toBe(false);
+        expect(session.rename('install', '')).toBe(false);
+        expect(session.log).toEqual([]);
+      });
+
+      it('logs normalized operations that replay onto the original', () => {
+        const session = createEditSession(makeItems());
+        session.insert('api', 99, { slug: 'reference', children: ['types'] });
+        session.move('faq', 'guides', -1);
+        session.rename('types', 'typings');
+
+        expect(session.log).toEqual([
+          {
+            type: 'insert',
+            parent: 'api',
+            index: 0,
+            item: { slug: 'reference', children: ['types'] },
+          },
+          { type: 'move', slug: 'faq', parent: 'guides', index: 0 },
+          { type: 'rename', slug: 'types', to: 'typings' },
+        ]);
+        expect(replayEdits(session.original, session.log)).toEqual(
+          session.export()
+        );
+      });
+
+      it('replayEdits() throws on an operation that does not fit', () => {
+        expect(() =>
+          replayEdits(makeItems(), [{ type: 'remove', slug: 'missing' }])
+        ).toThrow('Cannot replay operation 0 (remove "missing")');
+      });
+
+      it('emits the operation applied for each edit, undo and redo', () => {
+        const session = createEditSession(makeItems());
+        const change = vi.fn();
+        session.on('change', change);
+
+        session.rename('faq', 'help');
+        session.undo();
+        session.redo();
+
+        expect(change.mock.calls.map(([event]) => event)).toEqual([
+          {
+            operation: { type: 'rename', slug: 'faq', to: 'help' },
+            source: 'apply',
+          },
+          {
+            operation: { type: 'rename', slug: 'help', to: 'faq' },
+            source: 'undo',
+          },
+          {
+            operation: { type: 'rename', slug: 'faq', to: 'help' },
+            source: 'redo',
+          },
+        ]);
+      });
+
+      it('keeps a navigator in sync', () => {
+        const items = makeItems();
+        const nav = createNavigator({ items });
+        const session = createEditSession(items, { navigator: nav });
+        nav.goToSlug('usage');
+
+        session.move('usage', 'api', 0);
+        session.rename('usage', 'examples');
+        session.insert(null, 0, 'intro');
+        expect(nav.root).toEqual(session.export());
+        expect(nav.currentPath).toBe('api/examples');
+
+        session.undo();
+        session.undo();
+        session.undo();
+        expect(nav.root).toEqual(makeItems());
+        expect(nav.currentPath).toBe('guides/usage');
+      });
+    });
+
+    describe('createProgress()', () => {
+      function makeItems(): NavItem[] {
+        return [
+          { slug: 'basics', children: ['variables', 'loops', 'functions'] },
+          {
+            slug: 'advanced',
+            children: ['closures', { slug: 'async', children: [] }],
+          },
+          'quiz',
+        ];
+      }
+
+      it('marks items visited as the cursor moves', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const progress = createProgress(nav);
+        nav.next();
+        nav.next();
+
+        expect(progress.visited).toEqual(['basics', 'variables', 'loops']);
+        expect(progress.isVisited('loops')).toBe(true);
+        expect(progress.isVisited('quiz')).toBe(false);
+
+        progress.dispose();
+        nav.next();
+        expect(progress.isVisited('functions')).toBe(false);
+      });
+
+      it('can track visits by hand only', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const progress = createProgress(nav, { trackVisits: false });
+        nav.next();
+        progress.markVisited('quiz');
+
+        expect(progress.visited).toEqual(['quiz']);
+      });
+
+      it('computes branch completion from leaves', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const progress = createProgress(nav);
+        progress.markComplete('variables');
+        progress.markComplete('loops');
+
+        expect(progress.completion('basics')).toEqual({
+          completed: 2,
+          total: 3,
+          fraction: 2 / 3,
+        });
+        expect(progress.isComplete('basics')).toBe(false);
+
+        progress.markComplete('functions');
+        expect(progress.isComplete('basics')).toBe(true);
+        expect(progress.completion()).toEqual({
+          completed: 3,
+          total: 6,
+          fraction: 0.5,
+        });
+        expect(progress.completion('missing')).toEqual({
+          completed: 0,
+          total: 0,
+          fraction: 0,
+        });
+      });
+
+      it('marks every leaf of a branch, counting empty branches as leaves', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const progress = createProgress(nav);
+        const change = vi.fn();
+        progress.on('change', change);
+
+        progress.markComplete('advanced');
+        expect(progress.completed).toEqual(['closures', 'async']);
+        expect(change).toHaveBeenCalledWith({
+          type: 'complete',
+          slugs: ['closures', 'async'],
+        });
+
+        progress.markIncomplete('async');
+        expect(progress.isComplete('advanced')).toBe(false);
+        expect(progress.completion('advanced').fraction).toBe(0.5);
+      });
+
+      it('nextIncomplete() skips completed items and expanded branches', () => {
+        const nav = createNavigator({ items: makeItems(), wrap: false });
+        const progress = createProgress(nav);
+        progress.markComplete('variables');
+        progress.markComplete('advanced');
+
+        progress.nextIncomplete();
+        expect(nav.current).toBe('loops');
+        progress.nextIncomplete();
+        progress.nextIncomplete();
+        expect(nav.current).toBe('quiz');
+
+        // Nothing left ahead
+        progress.nextIncomplete();
+        expect(nav.current).toBe('quiz');
+
+        progress.prevIncomplete();
+        expect(nav.current).toBe('functions');
+      });
+
+      it('nextIncomplete() stops on collapsed branches with work left', () => {
+        const nav = createNavigator({ items: makeItems(), expanded: false });
+        const progress = createProgress(nav);
+
+        progress.nextIncomplete();
+        expect(nav.current).toBe('advanced');
+      });
+
+      it('saves to and loads from storage', () => {
+        const storage = createMemoryStorageAdapter<ProgressState>();
+        const nav = createNavigator({ items: makeItems() });
+        createProgress(nav, { storage }).markComplete('loops');
+
+        expect(storage.load()).toEqual({
+          visited: ['basics'],
+          completed: ['loops'],
+        });
+
+        const restored = createProgress(nav, { storage, trackVisits: false });
+        expect(restored.isComplete('loops')).toBe(true);
+
+        restored.reset();
+        expect(storage.load()).toEqual({ visited: [], completed: [] });
+      });
+
+      it('ignores malformed snapshots', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const bad = [
+          { visited: 5, completed: [] },
+          { visited: [], completed: 'ab' },
+          { visited: [1], completed: [] },
+          'loops',
+        ] as unknown as ProgressState[];
+
+        for (const state of bad) {
+          const storage = createMemoryStorageAdapter<ProgressState>();
+          storage.save(state);
+          const progress = createProgress(nav, {
+            storage,
+            trackVisits: false,
+          });
+          expect(progress.serialize()).toEqual({ visited: [], completed: [] });
+
+          progress.markComplete('loops');
+          progress.restore(state);
+          expect(progress.completed).toEqual(['loops']);
+          expect(getCompletion(makeItems(), state).completed).toBe(0);
+        }
+      });
+
+      it('follows tree edits', () => {
+        const nav = createNavigator({ items: makeItems() });
+        const progress = createProgress(nav);
+        progress.markComplete('basics');
+
+        nav.insert('basics', 0, 'intro');
+        expect(progress.completion('basics').fraction).toBe(3 / 4);
+      });
+
+      it('getCompletion() reads a snapshot without a navigator', () => {
+        const state: ProgressState = {
+          visited: [],
+          completed: ['variables', 'closures'],
+        };
+
+        expect(getCompletion(makeItems(), state, 'basics')).toEqual({
+          completed: 1,
+          total: 3,
+          fraction: 1 / 3,
+        });
+        expect(getCompletion(makeItems(), state).completed).toBe(2);
+        expect(getCompletion(makeItems(), null).total).toBe(6);
+      });
+    });
+
+    describe('root property', () => {
+      it('returns original items', () => {
+        const items: NavItem[] = [{ slug: 'a', children: ['b'] }];
+        const nav = createNavigator({ items });
+
+        expect(nav.root).toBe(items);
+      });
+    });
+
+    describe('data payloads', () => {
+      type Page = { title: string };
+      const items: NavItem<Page>[] = [
+        {
+          slug: 'guides',
+          data: { title: 'Guides' },
+          children: [{ slug: 'install', data: { title: 'Install' } }, 'plain'],
+        },
+      ];
+
+      it('exposes currentData', () => {
+        const nav = createNavigator({ items });
+
+        expect(nav.currentData).toEqual({ title: 'Guides' });
+        nav.next();
+        expect(nav.currentData).toEqual({ title: 'Install' });
+        nav.next();
+        expect(nav.current).toBe('plain');
+        expect(nav.currentData).toBeUndefined();
+      });
+
+      it('passes data to onChange', () => {
+        const onChange = vi.fn();
+        const nav = createNavigator({ items, onChange });
+
+        nav.next();
+        expect(onChange).toHaveBeenCalledWith('guides', 'install', 1, {
+          title: 'Install',
+        });
+      });
+
+      it('currentData is undefined for empty navigator', () => {
+        const nav = createNavigator<Page>({ items: [] });
+        expect(nav.currentData).toBeUndefined();
+      });
+    });
+
+    describe('currentItem property', () => {
+      it('returns the full item (string or branch)', () => {
+        const items: NavItem[] = [{ slug: 'section', children: ['leaf'] }];
+        const nav = createNavigator({ items });
+
+        expect(nav.currentItem).toEqual({ slug: 'section', children: ['leaf'] });
+        nav.next();
+        expect(nav.currentItem).toBe('leaf');
+      });
+    });
+
+    describe('createGraphNavigator()', () => {
+      // Shared lessons: both modules build on 'functions'
+      const graph = {
+        nodes: ['closures', 'variables', 'loops', 'functions', 'recursion'],
+        edges: [
+          ['variables', 'loops'],
+          ['variables', 'functions'],
+          ['functions', 'closures'],
+          ['functions', 'recursion'],
+          ['loops', 'recursion'],
+        ] as [string, string][],
+      };
+
+      it('orders nodes topologically, ties in listed order', () => {
+        expect(sortGraph(graph)).toEqual([
+          'variables',
+          'loops',
+          'functions',
+          'closures',
+          'recursion',
+        ]);
+
+        const nav = createGraphNavigator(graph);
+        const visited = [nav.current];
+        for (let i = 0; i < 4; i++) {
+          nav.next();
+          visited.push(nav.current);
+        }
+        expect(visited).toEqual(sortGraph(graph));
+        nav.prev();
+        expect(nav.current).toBe('closures');
+      });
+
+      it('lists and moves to predecessors and successors', () => {
+        const nav = createGraphNavigator(graph);
+        expect(nav.predecessors).toEqual([]);
+        expect(nav.successors).toEqual(['loops', 'functions']);
+
+        nav.goToSuccessor(1);
+        expect(nav.current).toBe('functions');
+        nav.goToSuccessor(1);
+        expect(nav.current).toBe('recursion');
+        expect(nav.predecessors).toEqual(['loops', 'functions']);
+
+        nav.goToPredecessor();
+        expect(nav.current).toBe('loops');
+        nav.goToSuccessor(5);
+        expect(nav.current).toBe('loops');
+      });
+
+      it('reports cycles with the nodes involved', () => {
+        expect(() =>
+          createGraphNavigator({
+            nodes: ['a', 'b', 'c', 'd'],
+            edges: [
+              ['a', 'b'],
+              ['b', 'c'],
+              ['c', 'b'],
+              ['c', 'd'],
+            ],
+          })
+        ).toThrow('Cycle in graph: b → c → b');
+        expect(() => sortGraph({ nodes: ['a'], edges: [['a', 'a']] })).toThrow(
+          'Cycle in graph: a → a'
+        );
+      });
+
+      it('rejects unknown and duplicate nodes', () => {
+        expect(() => sortGraph({ nodes: ['a'], edges: [['a', 'b']] })).toThrow(
+          "Edge a → b refers to unknown node 'b'"
+        );
+        expect(() => sortGraph({ nodes: ['a', 'a'], edges: [] })).toThrow(
+          "Duplicate node 'a' in graph"
+        );
+      });
+
+      it('exposes the Navigator surface with data payloads', () => {
+        const onChange = vi.fn();
+        const nav: Navigator<{ title: string }> = createGraphNavigator({
+          nodes: [
+            { slug: 'intro', data: { title: 'Intro' } },
+            { slug: 'setup', data: { title: 'Setup' } },
+          ],
+          edges: [['intro', 'setup']],
+          history: true,
+          onChange,
+        });
+
+        nav.next();
+        expect(nav.currentData).toEqual({ title: 'Setup' });
+        expect(onChange).toHaveBeenCalledWith('intro', 'setup', 1, {
+          title: 'Setup',
+        });
+        nav.goToSlug('intro');
+        nav.back();
+        expect(nav.current).toBe('setup');
+        expect(nav.count).toBe(2);
+      });
+
+      it('replaces the graph and refuses tree edits', () => {
+        const nav = createGraphNavigator(graph);
+        nav.goToSlug('functions');
+
+        nav.setGraph({
+          nodes: ['functions', 'variables'],
+          edges: [['variables', 'functions']],
+        });
+        expect(nav.current).toBe('functions');
+        expect(nav.predecessors).toEqual(['variables']);
+        expect(nav.graph.nodes).toEqual(['functions', 'variables']);
+
+        expect(() => nav.insert(null, 0, 'x')).toThrow(
+          'insert() is not available in graph mode'
+        );
+        expect(() => nav.setItems([])).toThrow('use setGraph() instead');
+        expect(() =>
+          nav.setGraph({ nodes: ['a'], edges: [['a', 'a']] })
+        ).toThrow('Cycle in graph');
+        expect(nav.current).toBe('functions');
+      });
+
+      it('feeds stateless utilities through graphToItems', () => {
+        const items = graphToItems(graph);
+        expect(getNeighbors(items, 'functions')).toEqual({
+          prev: 'loops',
+          next: 'closures',
+        });
+      });
+    });
+  });
+
+  describe('flattenSlugs', () => {
+    it('flattens tree to DFS pre-order list', () => {
+      const items: NavItem[] = [
+        {
+          slug: 'a',
+          children: ['a1', 'a2'],
+        },
+        'b',
+      ];
+
+      const slugs = flattenSlugs(items);
+      expect(slugs).toEqual(['a', 'a1', 'a2', 'b']);
+    });
+
+    it('respects leavesOnly option', () => {
+      const items: NavItem[] = [
+        {
+          slug: 'section',
+          children: ['item1', 'item2'],
+        },
+      ];
+
+      const slugs = flattenSlugs(items, true);
+      expect(slugs).toEqual(['item1', 'item2']);
+    });
+
+    it('handles empty list', () => {
+      expect(flattenSlugs([])).toEqual([]);
+    });
+  });
+
+  describe('flattenEntries', () => {
+    it('returns slugs with data in DFS pre-order', () => {
+      const items: NavItem<string>[] = [
+        { slug: 'a', data: 'A', children: [{ slug: 'a1', data: 'A1' }] },
+        'b',
+      ];
+
+      expect(flattenEntries(items)).toEqual([
+        { slug: 'a', data: 'A' },
+        { slug: 'a1', data: 'A1' },
+        { slug: 'b', data: undefined },
+      ]);
+      expect(flattenEntries(items, true)).toEqual([
+        { slug: 'a1', data: 'A1' },
+        { slug: 'b', data: undefined },
+      ]);
+    });
+  });
+
+  describe('getNeighborEntries', () => {
+    const items: NavItem<{ title: string }>[] = [
+      { slug: 'one', data: { title: 'One' } },
+      { slug: 'two', data: { title: 'Two' } },
+      { slug: 'three', data: { title: 'Three' } },
+    ];
+
+    it('returns prev and next entries with data', () => {
+      const { prev, next } = getNeighborEntries(items, 'two');
+      expect(prev).toEqual({ slug: 'one', data: { title: 'One' } });
+      expect(next).toEqual({ slug: 'three', data: { title: 'Three' } });
+    });
+
+    it('returns null entries at the ends and for unknown slugs', () => {
+      expect(getNeighborEntries(items, 'one').prev).toBeNull();
+      expect(getNeighborEntries(items, 'three').next).toBeNull();
+      expect(getNeighborEntries(items, 'missing')).toEqual({
+        prev: null,
+        next: null,
+      });
+    });
+  });
+
+  describe('filtered utilities', () => {
+    const items: NavItem<{ tags: string[] }>[] = [
+      {
+        slug: 'guides',
+        children: [
+          { slug: 'intro', data: { tags: ['beginner'] } },
+          { slug: 'plugins', data: { tags: [] } },
+          { slug: 'theming', data: { tags: ['beginner'] } },
+        ],
+      },
+    ];
+    const filter = (_slug: string, data: { tags: string[] } | undefined) =>
+      !!data?.tags.includes('beginner');
+
+    it('flattenSlugs accepts a filter', () => {
+      expect(flattenSlugs(items, { filter })).toEqual(['intro', 'theming']);
+      expect(flattenSlugs(items, { filter, keepAncestors: true })).toEqual([
+        'guides',
+        'intro',
+        'theming',
+      ]);
+    });
+
+    it('flattenEntries accepts a filter', () => {
+      expect(flattenEntries(items, { filter }).map((e) => e.slug)).toEqual([
+        'intro',
+        'theming',
+      ]);
+    });
+
+    it('getNeighbors accepts a filter', () => {
+      expect(getNeighbors(items, 'intro', { filter })).toEqual({
+        prev: null,
+        next: 'theming',
+      });
+    });
+  });
+
+  describe('ordered utilities', () => {
+    const items: NavItem[] = [
+      { slug: 'a', children: ['a1', 'a2'] },
+      { slug: 'b', children: ['b1'] },
+    ];
+
+    it('flattenSlugs accepts an order', () => {
+      expect(flattenSlugs(items, { order: 'postorder' })).toEqual([
+        'a1',
+        'a2',
+        'a',
+        'b1',
+        'b',
+      ]);
+      expect(flattenSlugs(items, { order: 'breadth-first' })).toEqual([
+        'a',
+        'b',
+        'a1',
+        'a2',
+        'b1',
+      ]);
+      expect(flattenSlugs(items, { order: ['b1', 'a/a1'] })).toEqual([
+        'b1',
+        'a1',
+      ]);
+    });
+
+    it('getNeighbors accepts an order', () => {
+      expect(getNeighbors(items, 'a', { order: 'postorder' })).toEqual({
+        prev: 'a2',
+        next: 'b1',
+      });
+      expect(getNeighbors(items, 'b', { order: 'breadth-first' })).toEqual({
+        prev: 'a',
+        next: 'a1',
+      });
+    });
+  });
+
+  describe('getNeighbors', () => {
+    it('returns prev and next slugs', () => {
+      const items = ['a', 'b', 'c'];
+
+      const { prev, next } = getNeighbors(items, 'b');
+      expect(prev).toBe('a');
+      expect(next).toBe('c');
+    });
+
+    it('returns null for prev at start', () => {
+      const items = ['a', 'b'];
+
+      const { prev, next } = getNeighbors(items, 'a');
+      expect(prev).toBeNull();
+      expect(next).toBe('b');
+    });
+
+    it('returns null for next at end', () => {
+      const items = ['a', 'b'];
+
+      const { prev, next } = getNeighbors(items, 'b');
+      expect(prev).toBe('a');
+      expect(next).toBeNull();
+    });
+
+    it('returns null for both if slug not found', () => {
+      const items = ['a'];
+
+      const { prev, next } = getNeighbors(items, 'unknown');
+      expect(prev).toBeNull();
+      expect(next).toBeNull();
+    });
+
+    it('works with nested trees', () => {
+      const items: NavItem[] = [
+        {
+          slug: 'parent',
+          children: ['child1', 'child2'],
+        },
+      ];
+
+      // DFS order: parent, child1, child2
+      const neighbors1 = getNeighbors(items, 'child1');
+      expect(neighbors1.prev).toBe('parent');
+      expect(neighbors1.next).toBe('child2');
+
+      const neighbors2 = getNeighbors(items, 'child2');
+      expect(neighbors2.prev).toBe('child1');
+      expect(neighbors2.next).toBeNull();
+    });
+
+    it('respects leavesOnly option', () => {
+      const items: NavItem[] = [
+        {
+          slug: 'parent',
+          children: ['child1', 'child2'],
+        },
+      ];
+
+      // With leavesOnly, order is: child1, child2
+      const neighbors = getNeighbors(items, 'child1', { leavesOnly: true });
+      expect(neighbors.prev).toBeNull();
+      expect(neighbors.next).toBe('child2');
+    });
+
+    it('accepts a path to disambiguate duplicate slugs', () => {
+      const items: NavItem[] = [
+        { slug: 'guides', children: ['overview', 'install'] },
+        { slug: 'api', children: ['overview', 'reference'] },
+      ];
+
+      expect(getNeighbors(items, 'overview')).toEqual({
+        prev: 'guides',
+        next: 'install',
+      });
+      expect(getNeighbors(items, 'api/overview', { by: 'path' })).toEqual({
+        prev: 'api',
+        next: 'reference',
+      });
+      expect(getNeighbors(items, 'api/missing', { by: 'path' })).toEqual({
+        prev: null,
+        next: null,
+      });
+    });
+  });
+
+  describe('tree queries', () => {
+    const items: NavItem<{ title: string }>[] = [
+      {
+        slug: 'guides',
+        data: { title: 'Guides' },
+        children: [
+          { slug: 'install', data: { title: 'Install' } },
+          {
+            slug: 'config',
+            data: { title: 'Config' },
+            children: ['basic', 'advanced'],
+          },
+          'deploy',
+        ],
+      },
+      { slug: 'api', children: ['overview'] },
+    ];
+
+    it('getBreadcrumbs() returns the chain down to the target', () => {
+      expect(getBreadcrumbs(items, 'basic')).toEqual([
+        { slug: 'guides', data: { title: 'Guides' } },
+        { slug: 'config', data: { title: 'Config' } },
+        { slug: 'basic', data: undefined },
+      ]);
+      expect(getBreadcrumbs(items, 'missing')).toEqual([]);
+    });
+
+    it('getAncestors() excludes the target', () => {
+      expect(getAncestors(items, 'basic').map((e) => e.slug)).toEqual([
+        'guides',
+        'config',
+      ]);
+      expect(getAncestors(items, 'guides')).toEqual([]);
+    });
+
+    it('getDescendants() follows traversal order and leavesOnly', () => {
+      const slugs = (options = {}) =>
+        getDescendants(items, 'guides', options).map((e) => e.slug);
+
+      expect(slugs()).toEqual([
+        'install',
+        'config',
+        'basic',
+        'advanced',
+        'deploy',
+      ]);
+      expect(slugs({ leavesOnly: true })).toEqual([
+        'install',
+        'basic',
+        'advanced',
+        'deploy',
+      ]);
+      expect(slugs({ order: 'breadth-first' })).toEqual([
+        'install',
+        'config',
+        'deploy',
+        'basic',
+        'advanced',
+      ]);
+    });
+
+    it('getSiblings() skips the target and unvisited siblings', () => {
+      expect(getSiblings(items, 'install').map((e) => e.slug)).toEqual([
+        'config',
+        'deploy',
+      ]);
+      expect(
+        getSiblings(items, 'install', { leavesOnly: true }).map((e) => e.slug)
+      ).toEqual(['deploy']);
+      expect(getSiblings(items, 'api').map((e) => e.slug)).toEqual(['guides']);
+    });
+
+    it('getDepth() is 0-based, -1 when missing', () => {
+      expect(getDepth(items, 'guides')).toBe(0);
+      expect(getDepth(items, 'advanced')).toBe(2);
+      expect(getDepth(items, 'missing')).toBe(-1);
+    });
+
+    it('findBranch() returns the original branch item', () => {
+      const { children } = items[0] as NavBranch<{ title: string }>;
+      expect(findBranch(items, 'config')).toBe(
+        Array.isArray(children) ? children[1] : undefined
+      );
+      expect(findBranch(items, 'install')).toBeNull();
+    });
+
+    it('getSubtree() returns an items array rooted at the target', () => {
+      const subtree = getSubtree(items, 'config');
+      expect(flattenSlugs(subtree)).toEqual(['config', 'basic', 'advanced']);
+      expect(getSubtree(items, 'missing')).toEqual([]);
+    });
+
+    it('getSectionNeighbors() stays within the parent', () => {
+      expect(getSectionNeighbors(items, 'config')).toEqual({
+        prev: 'install',
+        next: 'deploy',
+      });
+      expect(getSectionNeighbors(items, 'advanced')).toEqual({
+        prev: 'basic',
+        next: null,
+      });
+      // getNeighbors would continue into the next section
+      expect(getNeighbors(items, 'advanced').next).toBe('deploy');
+    });
+
+    it('getSectionNeighbors() respects leavesOnly', () => {
+      const options = { leavesOnly: true };
+      expect(getSectionNeighbors(items, 'install', options)).toEqual({
+        prev: null,
+        next: 'deploy',
+      });
+      expect(getSectionNeighbors(items, 'config', options)).toEqual({
+        prev: null,
+        next: null,
+      });
+    });
+
+    it('getSectionNeighborEntries() includes data', () => {
+      expect(getSectionNeighborEntries(items, 'install').next).toEqual({
+        slug: 'config',
+        data: { title: 'Config' },
+      });
+    });
+
+    it('addresses targets by path', () => {
+      const dupes: NavItem[] = [
+        { slug: 'a', children: ['overview', 'x'] },
+        { slug: 'b', children: ['y', 'overview'] },
+      ];
+      expect(getDepth(dupes, 'b/overview', { by: 'path' })).toBe(1);
+      expect(
+        getSectionNeighbors(dupes, 'b/overview', { by: 'path' })
+      ).toEqual({ prev: 'y', next: null });
+      expect(
+        getBreadcrumbs(dupes, 'b/overview', { by: 'path' }).map((e) => e.slug)
+      ).toEqual(['b', 'overview']);
+    });
+  });
+
+  describe('findDuplicateSlugs', () => {
+    it('reports every path of each duplicate slug', () => {
+      const items: NavItem[] = [
+        { slug: 'guides', children: ['overview', 'install'] },
+        { slug: 'api', children: ['overview', 'install'] },
+        'overview',
+      ];
+
+      expect(findDuplicateSlugs(items)).toEqual([
+        {
+          slug: 'overview',
+          paths: ['guides/overview', 'api/overview', 'overview'],
+        },
+        { slug: 'install', paths: ['guides/install', 'api/install'] },
+      ]);
+    });
+
+    it('returns an empty list for unique slugs', () => {
+      expect(findDuplicateSlugs(['a', { slug: 'b', children: ['c'] }])).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('diffTrees', () => {
+    const before: NavItem[] = [
+      { slug: 'guides', children: ['install', 'usage', 'deploy'] },
+      { slug: 'api', children: ['client', 'server'] },
+      'faq',
+    ];
+
+    it('returns nothing for equal trees', () => {
+      expect(diffTrees(before, structuredClone(before))).toEqual([]);
+      expect(formatTreeDiff([])).toBe('No changes');
+    });
+
+    it('reports added and removed items with their descendants', () => {
+      const after: NavItem[] = [
+        { slug: 'guides', children: ['install', 'usage', 'deploy'] },
+        { slug: 'cli', children: ['commands'] },
+        'faq',
+      ];
+
+      expect(diffTrees(before, after)).toEqual([
+        { type: 'removed', slug: 'api', path: 'api', index: 1 },
+        { type: 'removed', slug: 'client', path: 'api/client', index: 0 },
+        { type: 'removed', slug: 'server', path: 'api/server', index: 1 },
+        { type: 'added', slug: 'cli', path: 'cli', index: 1 },
+        { type: 'added', slug: 'commands', path: 'cli/commands', index: 0 },
+      ]);
+    });
+
+    it('reports moves between parents, not their descendants', () => {
+      const after: NavItem[] = [
+        {
+          slug: 'guides',
+          children: [
+            'install',
+            'usage',
+            'deploy',
+            { slug: 'api', children: ['client', 'server'] },
+          ],
+        },
+        'faq',
+      ];
+
+      expect(diffTrees(before, after)).toEqual([
+        {
+          type: 'moved',
+          slug: 'api',
+          path: 'guides/api',
+          fromPath: 'api',
+          index: 3,
+        },
+      ]);
+    });
+
+    it('reports reordering once per parent', () => {
+      const after: NavItem[] = [
+        'faq',
+        { slug: 'guides', children: ['usage', 'install', 'deploy'] },
+        { slug: 'api', children: ['client', 'server'] },
+      ];
+
+      expect(diffTrees(before, after)).toEqual([
+        {
+          type: 'reordered',
+          path: null,
+          from: ['guides', 'api', 'faq'],
+          to: ['faq', 'guides', 'api'],
+        },
+        {
+          type: 'reordered',
+          path: 'guides',
+          from: ['install', 'usage', 'deploy'],
+          to: ['usage', 'install', 'deploy'],
+        },
+      ]);
+    });
+
+    it('does not count insertions as reordering', () => {
+      const after: NavItem[] = ['intro', ...before];
+      expect(diffTrees(before, after)).toEqual([
+        { type: 'added', slug: 'intro', path: 'intro', index: 0 },
+      ]);
+    });
+
+    it('detects renamed branches by the children they keep', () => {
+      const after: NavItem[] = [
+        { slug: 'guides', children: ['install', 'usage', 'deploy'] },
+        { slug: 'reference', children: ['client', 'server'] },
+        'faq',
+      ];
+
+      expect(diffTrees(before, after)).toEqual([
+        {
+          type: 'renamed',
+          slug: 'reference',
+          path: 'reference',
+          from: 'api',
+          fromPath: 'api',
+        },
+      ]);
+    });
+
+    it('does not infer renames from position alone', () => {
+      const after: NavItem[] = [
+        { slug: 'guides', children: ['install', 'pricing', 'deploy'] },
+        { slug: 'reference', children: [] },
+        'faq',
+      ];
+
+      expect(diffTrees(before, after)).toEqual([
+        { type: 'removed', slug: 'usage', path: 'guides/usage', index: 1 },
+        { type: 'removed', slug: 'api', path: 'api', index: 1 },
+        { type: 'removed', slug: 'client', path: 'api/client', index: 0 },
+        { type: 'removed', slug: 'server', path: 'api/server', index: 1 },
+        { type: 'added', slug: 'pricing', path: 'guides/pricing', index: 1 },
+        { type: 'added', slug: 'reference', path: 'reference', index: 1 },
+      ]);
+    });
+
+    it('pairs renames by data, even when moved', () => {
+      const oldItems: NavItem<{ title: string }>[] = [
+        { slug: 'a', data: { title: 'Intro' } },
+        { slug: 'docs', children: [] },
+      ];
+      const newItems: NavItem<{ title: string }>[] = [
+        {
+          slug: 'docs',
+          children: [{ slug: 'intro', data: { title: 'Intro' } }],
+        },
+      ];
+
+      expect(diffTrees(oldItems, newItems).map((c) => c.type)).toEqual([
+        'renamed',
+        'moved',
+      ]);
+    });
+
+    it('treats a different page in the same slot as removed and added', () => {
+      const changes = diffTrees(
+        [{ slug: 'a', data: { title: 'A' } }],
+        [{ slug: 'b', data: { title: 'B' } }]
+      );
+      expect(changes.map((c) => c.type)).toEqual(['removed', 'added']);
+    });
+
+    it('matches duplicate slugs by path', () => {
+      const oldItems: NavItem[] = [
+        { slug: 'guides', children: ['overview'] },
+        { slug: 'api', children: ['overview'] },
+      ];
+      const newItems: NavItem[] = [
+        { slug: 'guides', children: ['overview'] },
+        { slug: 'api', children: [] },
+        'overview',
+      ];
+
+      expect(diffTrees(oldItems, newItems)).toEqual([
+        { type: 'removed', slug: 'overview', path: 'api/overview', index: 0 },
+        { type: 'added', slug: 'overview', path: 'overview', index: 2 },
+      ]);
+    });
+
+    it('formatTreeDiff() groups changes as Markdown', () => {
+      const after: NavItem[] = [
+        { slug: 'guides', children: ['setup', 'usage'] },
+        { slug: 'reference', children: ['server', 'client', 'faq'] },
+      ];
+
+      expect(formatTreeDiff(diffTrees(before, after))).toBe(
+        [
+          '**Removed** (2)',
+          '- `guides/install`',
+          '- `guides/deploy`',
+          '',
+          '**Added** (1)',
+          '- `guides/setup`',
+          '',
+          '**Renamed** (1)',
+          '- `api` → `reference`',
+          '',
+          '**Moved** (1)',
+          '- `faq` → `reference/faq`',
+          '',
+          '**Reordered** (1)',
+          '- `reference`: client, server → server, client',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('validateItems', () => {
+    it('accepts valid trees', () => {
+      expect(
+        validateItems([
+          'intro',
+          { slug: 'guides', data: { title: 'Guides' }, children: ['install'] },
+        ])
+      ).toEqual([]);
+    });
+
+    it('reports malformed items with their location and path', () => {
+      const errors = validateItems([
+        '',
+        { slug: 42 },
+        {
+          slug: 'guides',
+          children: [{ title: 'No slug' }, { slug: 'api', children: 'nope' }],
+        },
+        null,
+      ]);
+
+      expect(errors).toEqual([
+        { location: 'items[0]', path: null, message: 'Slug must not be empty' },
+        {
+          location: 'items[1]',
+          path: null,
+          message: 'Slug must be a string, got number 42',
+        },
+        {
+          location: 'items[2].children[0]',
+          path: 'guides',
+          message: 'Missing slug',
+        },
+        {
+          location: 'items[2].children[1]',
+          path: 'guides/api',
+          message:
+            'children must be an array or a loader function, got string "nope"',
+        },
+        {
+          location: 'items[3]',
+          path: null,
+          message: 'Expected a string or an object with a slug, got null',
+        },
+      ]);
+    });
+
+    it('points at items/children mix-ups', () => {
+      const [error] = validateItems([{ slug: 'a', items: ['b'] }]);
+      expect(error.message).toMatch(/Unknown key "items"/);
+    });
+
+    it('rejects non-array input', () => {
+      expect(validateItems({ docs: [] })).toEqual([
+        {
+          location: 'items',
+          path: null,
+          message: 'Expected an array of items, got an object',
+        },
+      ]);
+    });
+
+    it('formatItemErrors() prints one error per line', () => {
+      const errors = validateItems([{ slug: 'a', children: [''] }, 1]);
+      expect(formatItemErrors(errors)).toBe(
+        'items[0].children[0] (a): Slug must not be empty\n' +
+          'items[1]: Expected a string or an object with a slug, got number 1'
+      );
+    });
+  });
+
+  describe('normalizeItems', () => {
+    it('passes NavItem trees through', () => {
+      const items: NavItem[] = [
+        'intro',
+        { slug: 'guides', data: { title: 'Guides' }, children: ['install'] },
+      ];
+      expect(normalizeItems(items)).toEqual(items);
+    });
+
+    it('converts { title, link, items } objects', () => {
+      expect(
+        normalizeItems([
+          {
+            title: 'Getting Started',
+            items: [{ title: 'Install', link: '/install' }],
+          },
+        ])
+      ).toEqual([
+        {
+          slug: 'getting-started',
+          data: { title: 'Getting Started' },
+          children: [
+            { slug: '/install', data: { title: 'Install', link: '/install' } },
+          ],
+        },
+      ]);
+    });
+
+    it('converts VitePress sidebars', () => {
+      const items = normalizeItems([
+        {
+          text: 'Guide',
+          collapsed: false,
+          items: [
+            { text: 'Intro', link: '/guide/' },
+            { text: 'Config', link: '/guide/config' },
+          ],
+        },
+      ]);
+      expect(flattenSlugs(items)).toEqual([
+        'guide',
+        '/guide/',
+        '/guide/config',
+      ]);
+      expect(validateItems(items)).toEqual([]);
+    });
+
+    it('converts Docusaurus sidebars', () => {
+      const items = normalizeItems({
+        Tutorial: [
+          'intro',
+          { type: 'doc', id: 'setup', label: 'Setup' },
+          {
+            type: 'category',
+            label: 'Advanced',
+            link: { type: 'doc', id: 'advanced/index' },
+            items: ['advanced/hooks', { type: 'autogenerated', dirName: 'x' }],
+          },
+          { type: 'link', label: 'GitHub', href: 'https://github.com' },
+        ],
+      });
+
+      expect(items).toEqual([
+        {
+          slug: 'tutorial',
+          data: { title: 'Tutorial' },
+          children: [
+            'intro',
+            { slug: 'setup', data: { title: 'Setup' } },
+            {
+              slug: 'advanced/index',
+              data: { title: 'Advanced' },
+              children: ['advanced/hooks'],
+            },
+            {
+              slug: 'https://github.com',
+              data: { title: 'GitHub', link: 'https://github.com' },
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('converts the category shorthand inside lists', () => {
+      expect(normalizeItems([{ Basics: ['a', 'b'] }])).toEqual([
+        { slug: 'basics', data: { title: 'Basics' }, children: ['a', 'b'] },
+      ]);
+    });
+
+    it('throws with the location of entries it cannot convert', () => {
+      expect(() => normalizeItems([{ title: 'Ok', items: [7] }])).toThrow(
+        'Cannot normalize number 7 at items[0].items[0]'
+      );
+      expect(() => normalizeItems([{ title: '!!!' }])).toThrow(
+        'Cannot derive a slug at items[0]'
+      );
     });
   });
 
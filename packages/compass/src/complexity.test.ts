@@ -0,0 +1,127 @@
+/**
+ * Guards the complexity the benchmarks in compass.bench.ts measure.
+ * Each move is timed on a 5,000 and a 50,000 page tree; an O(n) move
+ * would be about 10x slower on the larger one, O(1)/O(depth) moves
+ * about the same. diffTrees is checked for linear growth the same way.
+ * Timings take the fastest of several batches so a busy machine
+ * doesn't fail the suite.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createNavigator,
+  diffTrees,
+  getNavigatorStore,
+  type Navigator,
+  type NavItem,
+} from './index.js';
+import { makeTree } from '../tests/fixtures/tree.js';
+
+/** Largest allowed slowdown from 10x more pages */
+const MAX_RATIO = 3;
+
+const BATCHES = 7;
+const MOVES_PER_BATCH = 2000;
+
+type Move = (nav: Navigator, sections: number, pages: number) => void;
+
+const moves: Record<string, Move> = {
+  goToSlug: (nav, sections, pages) => {
+    nav.goToSlug(`page-${sections - 1}-${pages - 2}`);
+    nav.goToSlug('section-0');
+  },
+  goToPath: (nav, sections) => {
+    nav.goToPath(`section-${sections - 1}/overview`);
+    nav.goToPath('section-0');
+  },
+  nextSibling: (nav, sections, pages) => {
+    nav.goToSlug(`page-${sections - 1}-${pages - 2}`);
+    nav.nextSibling();
+  },
+  prevSibling: (nav, sections, pages) => {
+    nav.goToSlug(`page-${sections - 1}-${pages - 2}`);
+    nav.prevSibling();
+  },
+  parent: (nav, sections, pages) => {
+    nav.goToSlug(`page-${sections - 1}-${pages - 2}`);
+    nav.parent();
+  },
+  firstChild: (nav, sections) => {
+    nav.goToSlug(`section-${sections - 1}`);
+    nav.firstChild();
+  },
+};
+
+/** Fastest batch time for a move, in ms */
+function time(
+  move: Move,
+  sections: number,
+  pages: number,
+  setup?: (nav: Navigator) => void
+): number {
+  const nav = createNavigator({ items: makeTree(sections, pages) });
+  setup?.(nav);
+  let best = Infinity;
+  for (let batch = 0; batch < BATCHES; batch++) {
+    const start = performance.now();
+    for (let i = 0; i < MOVES_PER_BATCH; i++) move(nav, sections, pages);
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+describe('navigator move complexity', () => {
+  for (const [name, move] of Object.entries(moves)) {
+    it(`${name} doesn't scale with tree size`, () => {
+      // Warm up so the JIT doesn't count against the small tree
+      time(move, 50, 100);
+
+      const small = time(move, 50, 100);
+      const large = time(move, 500, 100);
+      expect(large / Math.max(small, 0.01)).toBeLessThan(MAX_RATIO);
+    });
+  }
+
+  it("next with a store and a selection doesn't scale with tree size", () => {
+    // Adapters read the expanded and selected lists on every update
+    const withStore = (nav: Navigator) => {
+      getNavigatorStore(nav);
+      nav.select('section-0');
+    };
+    const next: Move = (nav) => nav.next();
+
+    time(next, 50, 100, withStore);
+    const small = time(next, 50, 100, withStore);
+    const large = time(next, 500, 100, withStore);
+    expect(large / Math.max(small, 0.01)).toBeLessThan(MAX_RATIO);
+  });
+});
+
+describe('diffTrees complexity', () => {
+  /** Pages with data, none of which survive into the other tree */
+  const pages = (count: number, prefix: string): NavItem[] =>
+    Array.from({ length: count }, (_, i) => ({
+      slug: `${prefix}-${i}`,
+      data: { title: `${prefix} ${i}` },
+    }));
+
+  const timeDiff = (count: number) => {
+    const before = pages(count, 'old');
+    const after = pages(count, 'new');
+    let best = Infinity;
+    for (let batch = 0; batch < BATCHES; batch++) {
+      const start = performance.now();
+      diffTrees(before, after);
+      best = Math.min(best, performance.now() - start);
+    }
+    return best;
+  };
+
+  it('stays linear when every page is replaced', () => {
+    timeDiff(300);
+    const small = timeDiff(300);
+    const large = timeDiff(3000);
+    // Linear is about 10x for 10x the pages, quadratic about 100x
+    expect(large / Math.max(small, 0.01)).toBeLessThan(10 * MAX_RATIO);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Compare two item trees, e.g. a sidebar config before and after a
+ * release, and report what changed.
+ *
+ * @example
+ * ```typescript
+ * const changes = diffTrees(previous, items);
+ * if (changes.some((change) => change.type === 'removed')) {
+ *   console.warn(formatTreeDiff(changes));
+ * }
+ * ```
+ */
+
+import { buildTree } from './buildFlatList.js';
+import { getData } from './helpers.js';
+import type { InternalNode, NavItem } from './types.js';
+
+/**
+ * A difference between two trees. Paths are in the new tree, except for
+ * removed items and the `fromPath` of moved and renamed ones.
+ */
+export type TreeChange =
+  | { type: 'added'; slug: string; path: string; index: number }
+  | { type: 'removed'; slug: string; path: string; index: number }
+  | {
+      type: 'renamed';
+      slug: string;
+      path: string;
+      from: string;
+      fromPath: string;
+    }
+  | {
+      type: 'moved';
+      slug: string;
+      path: string;
+      fromPath: string;
+      index: number;
+    }
+  | {
+      type: 'reordered';
+      /** Path of the parent whose children changed order (null for root) */
+      path: string | null;
+      /** Slugs of the children present in both trees, in the old order */
+      from: string[];
+      to: string[];
+    };
+
+/**
+ * List the changes that turn oldItems into newItems.
+ *
+ * Items are matched by slug, or by path for slugs that occur more than
+ * once. An unmatched pair counts as a rename when both carry equal data,
+ * or when they are branches that share a child and don't carry
+ * different data. Position alone doesn't count: a new page in an old
+ * one's slot is reported as removed and added. Moves within a parent
+ * are reported once per parent, as 'reordered'.
+ * Descendants of added and removed items are listed too.
+ *
+ * Changes come grouped: removed, added, renamed, moved, reordered,
+ * each in tree order.
+ */
+export function diffTrees<T>(
+  oldItems: NavItem<T>[],
+  newItems: NavItem<T>[]
+): TreeChange[] {
+  const oldRoots = buildTree(oldItems);
+  const newRoots = buildTree(newItems);
+  const oldNodes = preorder(oldRoots);
+  const newNodes = preorder(newRoots);
+
+  // Match by slug where it is unique on both sides, else by path
+  const oldCounts = countSlugs(oldNodes);
+  const newCounts = countSlugs(newNodes);
+  const keyOf = (node: InternalNode<T>) =>
+    oldCounts.get(node.slug) === 1 && newCounts.get(node.slug) === 1
+      ? `slug:${node.slug}`
+      : `path:${node.path}`;
+
+  const oldByKey = new Map(oldNodes.map((node) => [keyOf(node), node]));
+  const toNew = new Map<InternalNode<T>, InternalNode<T>>();
+  const toOld = new Map<InternalNode<T>, InternalNode<T>>();
+  const pair = (oldNode: InternalNode<T>, newNode: InternalNode<T>) => {
+    toNew.set(oldNode, newNode);
+    toOld.set(newNode, oldNode);
+  };
+
+  for (const node of newNodes) {
+    const match = oldByKey.get(keyOf(node));
+    if (match && !toNew.has(match)) pair(match, node);
+  }
+
+  // Counterpart of an old parent in the new tree (undefined if removed)
+  const newParentOf = (node: InternalNode<T>) =>
+    node.parent ? toNew.get(node.parent) : null;
+
+  // Serialized data of the old nodes left over, and those with data
+  // grouped by it, so each payload is serialized once
+  const oldData = new Map<InternalNode<T>, string | undefined>();
+  const unmatchedByData = new Map<string, InternalNode<T>[]>();
+  for (const old of oldNodes) {
+    if (toNew.has(old)) continue;
+    const data = dataKey(old);
+    oldData.set(old, data);
+    if (data === undefined) continue;
+    const group = unmatchedByData.get(data);
+    if (group) group.push(old);
+    else unmatchedByData.set(data, [old]);
+  }
+
+  // First old node with equal data that is still unpaired
+  const sameData = (data: string) => {
+    const group = unmatchedByData.get(data) ?? [];
+    while (group.length > 0) {
+      const old = group.shift() as InternalNode<T>;
+      if (!toNew.has(old)) return old;
+    }
+    return undefined;
+  };
+
+  // A renamed branch takes at least one of its children along, so look
+  // for it among the old parents of the new node's matched children
+  const keptChildParent = (node: InternalNode<T>, data: string | undefined) => {
+    for (const child of node.children) {
+      const old = toOld.get(child)?.parent;
+      if (
+        old &&
+        oldData.has(old) &&
+        !toNew.has(old) &&
+        (data === undefined || oldData.get(old) === undefined)
+      ) {
+        return old;
+      }
+    }
+    return undefined;
+  };
+
+  // Pair leftovers as renames, parents first so children can follow.
+  // Differing data means a different page, even with a shared child.
+  for (const node of newNodes) {
+    if (toOld.has(node)) continue;
+
+    const data = dataKey(node);
+    const match =
+      (data === undefined ? undefined : sameData(data)) ??
+      keptChildParent(node, data);
+    if (match) pair(match, node);
+  }
+
+  const removed: TreeChange[] = [];
+  const added: TreeChange[] = [];
+  const renamed: TreeChange[] = [];
+  const moved: TreeChange[] = [];
+  const reordered: TreeChange[] = [];
+
+  for (const node of oldNodes) {
+    if (!toNew.has(node)) {
+      const { slug, path, indexInParent: index } = node;
+      removed.push({ type: 'removed', slug, path, index });
+    }
+  }
+
+  for (const node of newNodes) {
+    const { slug, path, indexInParent: index } = node;
+    const old = toOld.get(node);
+    if (!old) {
+      added.push({ type: 'added', slug, path, index });
+      continue;
+    }
+
+    if (old.slug !== slug) {
+      renamed.push({
+        type: 'renamed',
+        slug,
+        path,
+        from: old.slug,
+        fromPath: old.path,
+      });
+    }
+    if (newParentOf(old) !== node.parent) {
+      moved.push({ type: 'moved', slug, path, fromPath: old.path, index });
+    }
+  }
+
+  for (const parent of [null, ...newNodes]) {
+    const children = parent ? parent.children : newRoots;
+
+    // Children that stayed under this parent, in both orders
+    const kept = children.filter((child) => {
+      const old = toOld.get(child);
+      return old && newParentOf(old) === parent;
+    });
+    const to = kept.map((child) => child.slug);
+    const oldIndex = (child: InternalNode<T>) =>
+      toOld.get(child)?.indexInParent ?? 0;
+    const from = [...kept]
+      .sort((a, b) => oldIndex(a) - oldIndex(b))
+      .map((child) => child.slug);
+
+    if (from.some((slug, i) => slug !== to[i])) {
+      reordered.push({
+        type: 'reordered',
+        path: parent ? parent.path : null,
+        from,
+        to,
+      });
+    }
+  }
+
+  return [...removed, ...added, ...renamed, ...moved, ...reordered];
+}
+
+/**
+ * Format changes as a Markdown list grouped by kind, e.g. for a PR
+ * comment. Returns 'No changes' for an empty list.
+ */
+export function formatTreeDiff(changes: TreeChange[]): string {
+  if (changes.length === 0) return 'No changes';
+
+  const sections: [TreeChange['type'], string][] = [
+    ['removed', 'Removed'],
+    ['added', 'Added'],
+    ['renamed', 'Renamed'],
+    ['moved', 'Moved'],
+    ['reordered', 'Reordered'],
+  ];
+
+  return sections
+    .map(([type, title]) => {
+      const lines = changes
+        .filter((change) => change.type === type)
+        .map((change) => `- ${describeChange(change)}`);
+      return lines.length > 0
+        ? `**${title}** (${lines.length})\n${lines.join('\n')}`
+        : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function describeChange(change: TreeChange): string {
+  switch (change.type) {
+    case 'added':
+    case 'removed':
+      return `\`${change.path}\``;
+    case 'renamed':
+    case 'moved':
+      return `\`${change.fromPath}\` → \`${change.path}\``;
+    case 'reordered':
+      return `\`${change.path ?? '(root)'}\`: ${change.from.join(', ')} → ${change.to.join(', ')}`;
+  }
+}
+
+function preorder<T>(roots: InternalNode<T>[]): InternalNode<T>[] {
+  return roots.flatMap((node) => [node, ...preorder(node.children)]);
+}
+
+function countSlugs<T>(nodes: InternalNode<T>[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const { slug } of nodes) counts.set(slug, (counts.get(slug) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Serialized data payload, for comparing items across trees
+ */
+function dataKey<T>(node: InternalNode<T>): string | undefined {
+  const data = getData(node.item);
+  return data === undefined ? undefined : JSON.stringify(data);
+}
@@ -0,0 +1,49 @@
+/**
+ * Internal event emitter backing navigator.on().
+ * Listeners run synchronously in subscription order.
+ */
+
+/**
+ * Emitter used by createNavigator - not exposed to consumers
+ */
+export interface Emitter<E> {
+  /** Subscribe to an event; returns an unsubscribe function */
+  on<K extends keyof E>(
+    event: K,
+    listener: (payload: E[K]) => void
+  ): () => void;
+
+  /** Call every listener for an event */
+  emit<K extends keyof E>(event: K, payload: E[K]): void;
+}
+
+/**
+ * Create an emitter for an event map
+ */
+export function createEmitter<E>(): Emitter<E> {
+  type Listener = (payload: E[keyof E]) => void;
+  const listeners = new Map<keyof E, Set<Listener>>();
+
+  return {
+    on(event, listener) {
+      let set = listeners.get(event);
+      if (!set) {
+        set = new Set();
+        listeners.set(event, set);
+      }
+      set.add(listener as Listener);
+
+      return () => {
+        set.delete(listener as Listener);
+      };
+    },
+
+    emit(event, payload) {
+      const set = listeners.get(event);
+      if (!set) return;
+
+      // Copy so listeners can unsubscribe while being called
+      for (const listener of [...set]) listener(payload);
+    },
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Tests for building item trees from a content directory.
+ * Runs against the fixture site in tests/fixtures/docs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { buildTreeFromFiles } from './fs.js';
+import {
+  createNavigator,
+  flattenEntries,
+  flattenSlugs,
+  getNeighbors,
+  validateItems,
+} from './index.js';
+
+const docs = fileURLToPath(new URL('../tests/fixtures/docs', import.meta.url));
+
+describe('buildTreeFromFiles', () => {
+  it('orders by _meta.json, then frontmatter position, then name', async () => {
+    const items = await buildTreeFromFiles(docs);
+
+    expect(flattenSlugs(items)).toEqual([
+      'index',
+      'getting-started',
+      'quick-start',
+      'install',
+      'guides',
+      'deploy',
+      'config',
+      'faq',
+      'changelog',
+    ]);
+  });
+
+  it('names items so navigator paths match routes', async () => {
+    const nav = createNavigator({ items: await buildTreeFromFiles(docs) });
+
+    for (const route of ['getting-started/install', 'guides/config', 'faq']) {
+      nav.goToPath(route);
+      expect(nav.currentPath).toBe(route);
+      expect(nav.currentData?.route).toBe(route);
+    }
+  });
+
+  it('uses index files as branch landing pages', async () => {
+    const [, gettingStarted, guides] = await buildTreeFromFiles(docs);
+
+    expect(gettingStarted).toMatchObject({
+      slug: 'getting-started',
+      data: {
+        title: 'Getting Started',
+        route: 'getting-started',
+        file: 'getting-started/index.md',
+      },
+    });
+    // Folders without an index still group their pages
+    expect(guides).toMatchObject({
+      slug: 'guides',
+      data: { title: 'Guides', file: null },
+    });
+  });
+
+  it('reads titles and frontmatter', async () => {
+    const entries = flattenEntries(await buildTreeFromFiles(docs));
+    const titles = Object.fromEntries(
+      entries.map(({ slug, data }) => [slug, data?.title])
+    );
+
+    expect(titles).toEqual({
+      index: 'Welcome',
+      'getting-started': 'Getting Started',
+      'quick-start': 'Quick start',
+      install: 'Installation',
+      guides: 'Guides',
+      deploy: 'Deploy',
+      config: 'Configuration',
+      faq: 'FAQ',
+      changelog: 'Changelog',
+    });
+
+    const quickStart = entries.find((entry) => entry.slug === 'quick-start');
+    expect(quickStart?.data?.frontmatter).toEqual({
+      title: 'Quick start',
+      order: 1,
+      draft: false,
+    });
+  });
+
+  it('returns items ready for the navigator and utilities', async () => {
+    const items = await buildTreeFromFiles(docs);
+
+    expect(validateItems(items)).toEqual([]);
+    expect(getNeighbors(items, 'guides/deploy', { by: 'path' })).toEqual({
+      prev: 'guides',
+      next: 'config',
+    });
+  });
+
+  it('accepts custom extensions and slugs', async () => {
+    const items = await buildTreeFromFiles(docs, {
+      extensions: ['.mdx'],
+      slug: (route) => `/docs/${route}`,
+    });
+    expect(flattenSlugs(items)).toEqual(['/docs/faq']);
+  });
+
+  it('accepts an array _meta.json and rejects invalid JSON', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'compass-fs-'));
+    try {
+      await writeFile(join(dir, 'a.md'), '');
+      await writeFile(join(dir, 'b.md'), '');
+      await writeFile(join(dir, '_meta.json'), '["b"]');
+      expect(flattenSlugs(await buildTreeFromFiles(dir))).toEqual(['b', 'a']);
+
+      await writeFile(join(dir, '_meta.json'), '{');
+      await expect(buildTreeFromFiles(dir)).rejects.toThrow(
+        /Invalid _meta.json/
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('parses lists, block scalars and multiline frontmatter', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'compass-fs-'));
+    try {
+      await writeFile(
+        join(dir, 'page.md'),
+        [
+          '---',
+          'title: A long',
+          '  wrapped title',
+          'tags:',
+          '  - intro',
+          '  - setup',
+          'description: |',
+          '  First line',
+          '  second line',
+          'sidebar:',
+          '  label: Page',
+          '---',
+          '',
+        ].join('\n')
+      );
+      const [page] = flattenEntries(await buildTreeFromFiles(dir));
+      expect(page.data?.title).toBe('Page');
+      expect(page.data?.frontmatter).toEqual({
+        title: 'A long wrapped title',
+        tags: ['intro', 'setup'],
+        description: 'First line\nsecond line\n',
+        sidebar: { label: 'Page' },
+      });
+
+      await writeFile(join(dir, 'page.md'), '---\ntitle: [\n---\n');
+      await expect(buildTreeFromFiles(dir)).rejects.toThrow(
+        /Invalid frontmatter in page.md/
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
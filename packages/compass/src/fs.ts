@@ -0,0 +1,336 @@
+/**
+ * Node-only helpers that build item trees from a content directory.
+ * Import from '@bearing-dev/compass/fs' so browser bundles never see
+ * node:fs.
+ *
+ * @example
+ * ```typescript
+ * import { buildTreeFromFiles } from '@bearing-dev/compass/fs';
+ *
+ * const items = await buildTreeFromFiles('src/content/docs');
+ * getNeighbors(items, 'guides/install', { by: 'path' });
+ * ```
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, join, posix } from 'node:path';
+import type { NavItem } from './types.js';
+
+/**
+ * Data payload attached to each generated item
+ */
+export interface FileData {
+  /** Sidebar label: frontmatter, then _meta.json, then the file name */
+  title: string;
+
+  /** Route without extension, e.g. 'guides/install' ('' for a root index) */
+  route: string;
+
+  /** File relative to the content directory (null for folders without one) */
+  file: string | null;
+
+  /**
+   * Frontmatter of the file (or folder index). Parsed with the optional
+   * `yaml` package when it is installed, else see buildTreeFromFiles.
+   */
+  frontmatter: Record<string, unknown>;
+}
+
+/**
+ * Options for buildTreeFromFiles
+ */
+export interface BuildTreeFromFilesOptions {
+  /** Content file extensions (default: ['.md', '.mdx']) */
+  extensions?: string[];
+
+  /** Base name of folder landing pages (default: 'index') */
+  indexName?: string;
+
+  /**
+   * Turn a route into a slug (default: its last segment, so navigator
+   * paths equal routes; 'index' for the root index). The full route is
+   * always in data.route.
+   */
+  slug?: (route: string) => string;
+}
+
+/** A file or folder in one directory, before ordering */
+interface Entry {
+  name: string;
+  item: NavItem<FileData>;
+  position: number | undefined;
+}
+
+/** Parsed _meta.json: order of names, plus optional titles */
+interface Meta {
+  order: string[];
+  titles: Map<string, string>;
+}
+
+/**
+ * Walk a directory of markdown/MDX files and return items for
+ * createNavigator and the stateless utilities.
+ *
+ * - Folders become branches; their index file is the landing page
+ * - Order within a folder: names listed in `_meta.json` first, then
+ *   frontmatter `order`, `sidebar_position` or `sidebar.order`, then name
+ * - Titles come from `sidebar.label`, `sidebar_label` or `title`
+ *   frontmatter, then `_meta.json`, then the file name
+ * - Files and folders starting with `_` or `.` are skipped, as are
+ *   folders with no content files
+ *
+ * `_meta.json` is either an array of names or an object mapping names
+ * to titles (or `{ "title": ... }`), in the order they should appear.
+ *
+ * Frontmatter is read with the optional `yaml` package when installed,
+ * and invalid YAML rejects. Without it, only `key: value` lines with
+ * scalar values and one level of nesting (`sidebar:` blocks) are read;
+ * lists, block scalars and multiline values are skipped.
+ */
+export async function buildTreeFromFiles(
+  dir: string,
+  options: BuildTreeFromFilesOptions = {}
+): Promise<NavItem<FileData>[]> {
+  const {
+    extensions = ['.md', '.mdx'],
+    indexName = 'index',
+    slug: toSlug = (route: string) => posix.basename(route) || indexName,
+  } = options;
+  const parseYaml = await loadYaml();
+
+  /**
+   * Read one folder's content files and subfolders. The index file is
+   * returned separately, since it describes the folder itself.
+   */
+  async function walk(
+    relDir: string,
+    meta: Meta
+  ): Promise<{ entries: Entry[]; indexFile: string | null }> {
+    const dirents = await readdir(join(dir, relDir), { withFileTypes: true });
+    const entries: Entry[] = [];
+    let indexFile: string | null = null;
+
+    for (const dirent of dirents) {
+      if (dirent.name.startsWith('_') || dirent.name.startsWith('.')) continue;
+
+      if (dirent.isDirectory()) {
+        const entry = await walkFolder(posix.join(relDir, dirent.name), meta);
+        if (entry) entries.push(entry);
+        continue;
+      }
+
+      const ext = extname(dirent.name);
+      if (!dirent.isFile() || !extensions.includes(ext)) continue;
+
+      const name = dirent.name.slice(0, -ext.length);
+      const file = posix.join(relDir, dirent.name);
+      if (name === indexName) {
+        indexFile = file;
+      } else {
+        const route = posix.join(relDir, name);
+        const { data, position } = await readPage(file, route, name, meta);
+        entries.push({ name, item: { slug: toSlug(route), data }, position });
+      }
+    }
+
+    return { entries, indexFile };
+  }
+
+  async function walkFolder(
+    relDir: string,
+    parentMeta: Meta
+  ): Promise<Entry | null> {
+    const name = posix.basename(relDir);
+    const meta = await readMeta(join(dir, relDir));
+    const { entries, indexFile } = await walk(relDir, meta);
+    if (entries.length === 0 && !indexFile) return null;
+
+    // The index page supplies the folder's title, data and position
+    const { data, position } = indexFile
+      ? await readPage(indexFile, relDir, name, parentMeta)
+      : {
+          data: {
+            title: parentMeta.titles.get(name) ?? humanize(name),
+            route: relDir,
+            file: null,
+            frontmatter: {},
+          },
+          position: undefined,
+        };
+    const children = sortEntries(entries, meta).map((entry) => entry.item);
+
+    return {
+      name,
+      item: { slug: toSlug(relDir), data, children },
+      position,
+    };
+  }
+
+  async function readPage(
+    file: string,
+    route: string,
+    name: string,
+    meta: Meta
+  ): Promise<{ data: FileData; position: number | undefined }> {
+    const source = await readFile(join(dir, file), 'utf8');
+    const frontmatter = parseFrontmatter(source, file, parseYaml);
+    const sidebar = isRecord(frontmatter.sidebar) ? frontmatter.sidebar : {};
+    const title =
+      text(sidebar.label) ??
+      text(frontmatter.sidebar_label) ??
+      text(frontmatter.title) ??
+      meta.titles.get(name) ??
+      humanize(name);
+    const position =
+      number(frontmatter.order) ??
+      number(frontmatter.sidebar_position) ??
+      number(sidebar.order);
+
+    return { data: { title, route, file, frontmatter }, position };
+  }
+
+  const rootMeta = await readMeta(dir);
+  const { entries, indexFile } = await walk('', rootMeta);
+  const items = sortEntries(entries, rootMeta).map((entry) => entry.item);
+  if (!indexFile) return items;
+
+  // A root index page becomes the first top-level item
+  const { data } = await readPage(indexFile, '', indexName, rootMeta);
+  return [{ slug: toSlug(''), data }, ...items];
+}
+
+/**
+ * Order entries: _meta.json names first, then position, then name
+ */
+function sortEntries(entries: Entry[], meta: Meta): Entry[] {
+  const rank = (entry: Entry) => {
+    const i = meta.order.indexOf(entry.name);
+    return i === -1 ? Infinity : i;
+  };
+
+  return [...entries].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      (a.position ?? Infinity) - (b.position ?? Infinity) ||
+      a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+}
+
+async function readMeta(dirPath: string): Promise<Meta> {
+  const meta: Meta = { order: [], titles: new Map() };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(join(dirPath, '_meta.json'), 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return meta;
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid _meta.json in ${dirPath}: ${reason}`);
+  }
+
+  if (Array.isArray(raw)) {
+    meta.order = raw.filter((name) => typeof name === 'string');
+  } else if (isRecord(raw)) {
+    for (const [name, value] of Object.entries(raw)) {
+      meta.order.push(name);
+      const title = isRecord(value) ? text(value.title) : text(value);
+      if (title) meta.titles.set(name, title);
+    }
+  }
+  return meta;
+}
+
+type ParseYaml = (source: string) => unknown;
+
+/** parse() from the optional `yaml` package, or null if not installed */
+async function loadYaml(): Promise<ParseYaml | null> {
+  try {
+    return (await import('yaml')).parse;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a file's YAML frontmatter block, with `yaml` when available and
+ * the simple subset otherwise
+ */
+function parseFrontmatter(
+  source: string,
+  file: string,
+  parseYaml: ParseYaml | null
+): Record<string, unknown> {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(source);
+  if (!match) return {};
+  if (!parseYaml) return parseSimpleYaml(match[1]);
+
+  let value: unknown;
+  try {
+    value = parseYaml(match[1]);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid frontmatter in ${file}: ${reason}`);
+  }
+  return isRecord(value) ? value : {};
+}
+
+/**
+ * Read the top-level fields of a frontmatter block without a YAML
+ * parser. Handles the scalar values and one level of nesting that
+ * sidebar settings use; anything more complex is skipped.
+ */
+function parseSimpleYaml(block: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  let nested: Record<string, unknown> | null = null;
+  for (const line of block.split(/\r?\n/)) {
+    const field = /^(\s*)([\w-]+):\s*(.*)$/.exec(line);
+    if (!field) continue;
+
+    const [, indent, key, value] = field;
+    if (indent === '') {
+      nested = null;
+      if (value === '') {
+        nested = {};
+        result[key] = nested;
+      } else {
+        result[key] = parseScalar(value);
+      }
+    } else if (nested) {
+      nested[key] = parseScalar(value);
+    }
+  }
+  return result;
+}
+
+function parseScalar(value: string): unknown {
+  const trimmed = value.replace(/\s+#.*$/, '').trim();
+  const quoted = /^(['"])(.*)\1$/.exec(trimmed);
+  if (quoted) return quoted[2];
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null' || trimmed === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  return trimmed;
+}
+
+/**
+ * 'getting-started' → 'Getting started', '01-intro' → 'Intro'
+ */
+function humanize(name: string): string {
+  const words = name.replace(/^\d+[-_.]/, '').replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function number(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,280 @@
+/**
+ * Graph mode: navigate content whose prerequisites form a DAG rather
+ * than a tree, e.g. lessons shared between several modules.
+ *
+ * - createGraphNavigator: A Navigator over the nodes in topological
+ *   order, with predecessor/successor moves
+ * - sortGraph / graphToItems: The same order for build-time code; the
+ *   items work with getNeighbors() and the other stateless utilities
+ *
+ * @example
+ * ```typescript
+ * const nav = createGraphNavigator({
+ *   nodes: ['variables', 'loops', 'functions', 'closures'],
+ *   edges: [
+ *     ['variables', 'loops'],
+ *     ['variables', 'functions'],
+ *     ['functions', 'closures'],
+ *   ],
+ * });
+ *
+ * nav.next();                // topological order
+ * nav.successors;            // lessons that build on the current one
+ * nav.goToPredecessor();     // back to a prerequisite
+ * ```
+ */
+
+import { createNavigator } from './navigator.js';
+import { getSlug } from './helpers.js';
+import type { Navigator, NavigatorConfig, NavItem, NavLeaf } from './types.js';
+
+/**
+ * Nodes and directed edges. An edge [from, to] means `from` is a
+ * prerequisite of `to`, so `from` always comes first.
+ */
+export interface NavGraph<T = unknown> {
+  /** Slugs or leaves with data; ties in the order follow this list */
+  nodes: (string | NavLeaf<T>)[];
+  edges: [from: string, to: string][];
+}
+
+/**
+ * Configuration for createGraphNavigator: a graph in place of items.
+ * Tree-only options (expanded, leavesOnly...) have no effect.
+ */
+export type GraphNavigatorConfig<T = unknown> = Omit<
+  NavigatorConfig<T>,
+  'items'
+> &
+  NavGraph<T>;
+
+/**
+ * Navigator over a graph. next()/prev() follow the topological order;
+ * tree edits (insert, remove, move, rename, setItems) throw, since the
+ * order comes from the edges - use setGraph() instead.
+ */
+export interface GraphNavigator<T = unknown> extends Navigator<T> {
+  /** The graph being navigated */
+  readonly graph: NavGraph<T>;
+
+  /** Direct prerequisites of the current node, in topological order */
+  readonly predecessors: string[];
+
+  /** Nodes that directly build on the current node, in topological order */
+  readonly successors: string[];
+
+  /** Move to the nth predecessor of the current node (default: first) */
+  goToPredecessor(n?: number): void;
+
+  /** Move to the nth successor of the current node (default: first) */
+  goToSuccessor(n?: number): void;
+
+  /**
+   * Replace the graph, keeping the current node if it still exists.
+   * Throws like createGraphNavigator on invalid graphs.
+   */
+  setGraph(graph: NavGraph<T>): void;
+}
+
+/** Edges indexed both ways, with every list in topological order */
+interface SortedGraph {
+  order: string[];
+  predecessors: Map<string, string[]>;
+  successors: Map<string, string[]>;
+}
+
+/**
+ * Create a navigator over a DAG. Throws on duplicate nodes, edges to
+ * unknown nodes and cycles; the error names the cycle.
+ */
+export function createGraphNavigator<T>(
+  config: GraphNavigatorConfig<T>
+): GraphNavigator<T> {
+  const { nodes, edges, ...rest } = config;
+  let graph: NavGraph<T> = { nodes, edges };
+  let sorted = analyzeGraph(graph);
+
+  const navigator = createNavigator({ ...rest, items: toItems(graph, sorted) });
+
+  const neighbors = (map: Map<string, string[]>) => {
+    const slug = navigator.current;
+    return slug === null ? [] : [...(map.get(slug) ?? [])];
+  };
+
+  const unsupported = (method: string) => () => {
+    throw new Error(
+      `${method}() is not available in graph mode; use setGraph() instead`
+    );
+  };
+
+  const extension = {
+    get graph() {
+      return graph;
+    },
+
+    get predecessors() {
+      return neighbors(sorted.predecessors);
+    },
+
+    get successors() {
+      return neighbors(sorted.successors);
+    },
+
+    goToPredecessor(n = 0) {
+      const slug = neighbors(sorted.predecessors)[n];
+      if (slug !== undefined) navigator.goToSlug(slug);
+    },
+
+    goToSuccessor(n = 0) {
+      const slug = neighbors(sorted.successors)[n];
+      if (slug !== undefined) navigator.goToSlug(slug);
+    },
+
+    setGraph(next: NavGraph<T>) {
+      const nextSorted = analyzeGraph(next);
+      graph = next;
+      sorted = nextSorted;
+      navigator.setItems(toItems(graph, sorted));
+    },
+
+    insert: unsupported('insert'),
+    remove: unsupported('remove'),
+    move: unsupported('move'),
+    rename: unsupported('rename'),
+    setItems: unsupported('setItems'),
+  };
+
+  // Copy descriptors so the navigator's getters stay live
+  return Object.defineProperties(
+    {},
+    {
+      ...Object.getOwnPropertyDescriptors(navigator),
+      ...Object.getOwnPropertyDescriptors(extension),
+    }
+  ) as GraphNavigator<T>;
+}
+
+/**
+ * Slugs in topological order: every node after its prerequisites, ties
+ * broken by the order of `nodes`. Throws like createGraphNavigator.
+ */
+export function sortGraph<T>(graph: NavGraph<T>): string[] {
+  return analyzeGraph(graph).order;
+}
+
+/**
+ * Flat items in topological order, e.g. for getNeighbors() at build
+ * time or createNavigator() when graph moves aren't needed
+ */
+export function graphToItems<T>(graph: NavGraph<T>): NavItem<T>[] {
+  return toItems(graph, analyzeGraph(graph));
+}
+
+function toItems<T>(graph: NavGraph<T>, sorted: SortedGraph): NavItem<T>[] {
+  const bySlug = new Map(graph.nodes.map((node) => [getSlug(node), node]));
+  return sorted.order.map((slug) => bySlug.get(slug) ?? slug);
+}
+
+/**
+ * Validate a graph and sort it with Kahn's algorithm. Among the nodes
+ * whose prerequisites are done, the one listed first goes next.
+ */
+function analyzeGraph<T>(graph: NavGraph<T>): SortedGraph {
+  const slugs = graph.nodes.map(getSlug);
+  const position = new Map<string, number>();
+  slugs.forEach((slug, i) => {
+    if (position.has(slug)) {
+      throw new Error(`Duplicate node '${slug}' in graph`);
+    }
+    position.set(slug, i);
+  });
+
+  const predecessors = new Map(slugs.map((slug) => [slug, new Set<string>()]));
+  const successors = new Map(slugs.map((slug) => [slug, new Set<string>()]));
+  for (const [from, to] of graph.edges) {
+    for (const slug of [from, to]) {
+      if (!position.has(slug)) {
+        throw new Error(
+          `Edge ${from} → ${to} refers to unknown node '${slug}'`
+        );
+      }
+    }
+    successors.get(from)?.add(to);
+    predecessors.get(to)?.add(from);
+  }
+
+  const remaining = new Map(
+    slugs.map((slug) => [slug, predecessors.get(slug)?.size ?? 0])
+  );
+  const ready = slugs.filter((slug) => remaining.get(slug) === 0);
+  const order: string[] = [];
+
+  // ready is kept sorted by position, so the first entry goes next
+  for (let slug = ready.shift(); slug !== undefined; slug = ready.shift()) {
+    order.push(slug);
+
+    for (const next of successors.get(slug) ?? []) {
+      const count = (remaining.get(next) ?? 0) - 1;
+      remaining.set(next, count);
+      if (count === 0) {
+        const at = ready.findIndex(
+          (other) => (position.get(other) ?? 0) > (position.get(next) ?? 0)
+        );
+        ready.splice(at === -1 ? ready.length : at, 0, next);
+      }
+    }
+  }
+
+  if (order.length < slugs.length) {
+    const cycle = findCycle(
+      slugs.filter((slug) => (remaining.get(slug) ?? 0) > 0),
+      predecessors
+    );
+    throw new Error(`Cycle in graph: ${cycle.join(' → ')}`);
+  }
+
+  // List neighbours in topological order
+  const rank = new Map(order.map((slug, i) => [slug, i]));
+  const sortedList = (set: Set<string> | undefined) =>
+    [...(set ?? [])].sort((a, b) => (rank.get(a) ?? 0) - (rank.get(b) ?? 0));
+
+  return {
+    order,
+    predecessors: new Map(
+      slugs.map((slug) => [slug, sortedList(predecessors.get(slug))])
+    ),
+    successors: new Map(
+      slugs.map((slug) => [slug, sortedList(successors.get(slug))])
+    ),
+  };
+}
+
+/**
+ * Find one cycle among the nodes Kahn's algorithm couldn't place. Each
+ * of them waits on a predecessor that is stuck too, so walking
+ * predecessors must revisit a node. Returns the loop in edge order and
+ * closed, e.g. ['a', 'b', 'a'].
+ */
+function findCycle(
+  stuck: string[],
+  predecessors: Map<string, Set<string>>
+): string[] {
+  const inStuck = new Set(stuck);
+  const path: string[] = [];
+  const seen = new Map<string, number>();
+
+  let slug = stuck[0];
+  while (!seen.has(slug)) {
+    seen.set(slug, path.length);
+    path.push(slug);
+    const prev = [...(predecessors.get(slug) ?? [])].find((p) =>
+      inStuck.has(p)
+    );
+    if (prev === undefined) break;
+    slug = prev;
+  }
+
+  // path runs against the edges; turn the loop around
+  const loop = path.slice((seen.get(slug) ?? 0) + 1).reverse();
+  return [slug, ...loop, slug];
+}
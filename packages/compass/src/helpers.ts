@@ -1,20 +1,36 @@
 /**
  * Small utility functions for working with NavItem types.
- * Type guards and slug extraction.
+ * Type guards, slug and data extraction.
  */
 
-import type { NavItem, NavBranch } from './types.js';
+import type { NavItem, NavBranch, NavLoader } from './types.js';
 
 /**
  * Check if item is a branch (has children)
  */
-export function isBranch(item: NavItem): item is NavBranch {
+export function isBranch<T>(item: NavItem<T>): item is NavBranch<T> {
   return typeof item === 'object' && 'children' in item;
 }
 
+/**
+ * Check if item is a branch whose children haven't been loaded yet
+ */
+export function hasLoader<T>(
+  item: NavItem<T>
+): item is NavBranch<T> & { children: NavLoader<T> } {
+  return isBranch(item) && typeof item.children === 'function';
+}
+
 /**
  * Get the slug from any nav item
  */
-export function getSlug(item: NavItem): string {
-  return isBranch(item) ? item.slug : item;
+export function getSlug<T>(item: NavItem<T>): string {
+  return typeof item === 'string' ? item : item.slug;
+}
+
+/**
+ * Get the data payload from any nav item (undefined for plain strings)
+ */
+export function getData<T>(item: NavItem<T>): T | undefined {
+  return typeof item === 'string' ? undefined : item.data;
 }
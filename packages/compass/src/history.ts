@@ -0,0 +1,120 @@
+/**
+ * Internal jump list backing navigator.back()/forward().
+ * Modelled on vim's Ctrl+o / Ctrl+i: each recorded move stores the
+ * position you left, so back() returns to where you came from.
+ *
+ * Entries are node paths, so the state is plain JSON and can be
+ * restored after a page load.
+ */
+
+import type { HistoryState } from './types.js';
+
+/** Default number of entries kept */
+export const DEFAULT_HISTORY_DEPTH = 100;
+
+/**
+ * Jump list used by createNavigator - not exposed to consumers
+ */
+export interface JumpList {
+  readonly canGoBack: boolean;
+  readonly canGoForward: boolean;
+
+  /** Record the position being left by a move */
+  record(from: string): void;
+
+  /**
+   * Step back from the current position.
+   * Returns the path to move to, or null if there is none.
+   */
+  back(current: string, canVisit: (path: string) => boolean): string | null;
+
+  /** Step forward again after back() */
+  forward(canVisit: (path: string) => boolean): string | null;
+
+  /** JSON-safe copy of the current state */
+  snapshot(): HistoryState;
+
+  /** Replace the current state with a snapshot */
+  restore(state: HistoryState): void;
+}
+
+/**
+ * Create a jump list, optionally restored from a snapshot
+ */
+export function createJumpList(
+  depth: number = DEFAULT_HISTORY_DEPTH,
+  initial?: HistoryState
+): JumpList {
+  let entries: string[] = [];
+  // Position within entries; entries.length means "past the newest entry"
+  let index = 0;
+
+  function load(state: HistoryState): void {
+    const excess = Math.max(0, state.entries.length - depth);
+    entries = state.entries.slice(excess);
+    index = Math.max(0, Math.min(state.index - excess, entries.length));
+  }
+
+  function trim(): void {
+    if (entries.length > depth) {
+      const excess = entries.length - depth;
+      entries = entries.slice(excess);
+      index = Math.max(0, index - excess);
+    }
+  }
+
+  if (initial) load(initial);
+
+  return {
+    get canGoBack() {
+      return Math.min(index, entries.length) > 0;
+    },
+
+    get canGoForward() {
+      return index < entries.length - 1;
+    },
+
+    record(from: string) {
+      // A new move discards anything ahead of the current position
+      entries = entries.slice(0, index);
+      if (entries[entries.length - 1] !== from) entries.push(from);
+      index = entries.length;
+      trim();
+    },
+
+    back(current: string, canVisit: (path: string) => boolean) {
+      // Remember where we are so forward() can return here
+      if (index >= entries.length) {
+        if (entries[entries.length - 1] !== current) entries.push(current);
+        index = entries.length - 1;
+        trim();
+      }
+
+      for (let i = index - 1; i >= 0; i--) {
+        if (entries[i] !== current && canVisit(entries[i])) {
+          index = i;
+          return entries[i];
+        }
+      }
+      return null;
+    },
+
+    forward(canVisit: (path: string) => boolean) {
+      for (let i = index + 1; i < entries.length; i++) {
+        if (canVisit(entries[i])) {
+          index = i;
+          return entries[i];
+        }
+      }
+      return null;
+    },
+
+    snapshot() {
+      return { entries: entries.slice(), index };
+    },
+
+    restore(state: HistoryState) {
+      load(state);
+    },
+  };
+}
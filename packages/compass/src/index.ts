@@ -2,7 +2,8 @@
  * Compass - Headless navigation state for lists and trees
  *
  * A framework-agnostic state machine for navigating ordered items.
- * Works with strings (slugs) - no metadata, purely structural.
+ * Works with strings (slugs), or leaf/branch objects carrying a `data`
+ * payload that is exposed as `currentData` and passed to `onChange`.
  *
  * @example
  * ```typescript
@@ -19,19 +20,129 @@
  *   ]
  * });
  *
+ * // With data payloads
+ * const nav = createNavigator<{ title: string }>({
+ *   items: [{ slug: 'intro', data: { title: 'Introduction' } }],
+ * });
+ * nav.currentData; // { title: 'Introduction' }
+ *
  * // Build-time (SSG) - get neighbors without state
  * const { prev, next } = getNeighbors(items, 'prompting');
+ * const entries = getNeighborEntries(items, 'prompting'); // with data
  * ```
  */
 
 // Types
-export type { NavItem, NavBranch, Navigator, NavigatorConfig } from './types.js';
+export type {
+  NavItem,
+  NavLeaf,
+  NavBranch,
+  NavLoader,
+  NavEntry,
+  NavPredicate,
+  NavLabel,
+  NavOrder,
+  Navigator,
+  NavigatorConfig,
+  NavCause,
+  NavDirection,
+  NavEvents,
+  NavChangeEvent,
+  NavBoundaryEvent,
+  NavWrapEvent,
+  NavBlockedEvent,
+  NavLoadEvent,
+  FindOptions,
+  DuplicateSlug,
+  DuplicateSlugMode,
+  HistoryConfig,
+  HistoryState,
+  NavigatorState,
+  NavMark,
+} from './types.js';
+export type { StorageAdapter } from './storage.js';
+export type {
+  ProgressState,
+  ProgressCount,
+  ProgressChangeEvent,
+  ProgressEvents,
+  ProgressOptions,
+  Progress,
+} from './progress.js';
+export type { Typeahead, TypeaheadOptions } from './typeahead.js';
+export type {
+  NavigatorSnapshot,
+  NavigatorStore,
+  NavigatorMoves,
+} from './store.js';
+export type { ItemError, NormalizedData } from './validate.js';
+export type {
+  EditOperation,
+  EditChangeEvent,
+  EditSessionEvents,
+  EditSessionOptions,
+  EditSession,
+} from './session.js';
+export type { TreeChange } from './diff.js';
+export type {
+  NavGraph,
+  GraphNavigator,
+  GraphNavigatorConfig,
+} from './graph.js';
+export type {
+  FlattenOptions,
+  NeighborOptions,
+  TargetOptions,
+} from './utils.js';
 
 // Helpers
-export { isBranch, getSlug } from './helpers.js';
+export { isBranch, hasLoader, getSlug, getData } from './helpers.js';
 
 // Main factory
 export { createNavigator } from './navigator.js';
 
+// Typeahead
+export { createTypeahead } from './typeahead.js';
+
+// Editing
+export { createEditSession, replayEdits } from './session.js';
+
+// Diffing
+export { diffTrees, formatTreeDiff } from './diff.js';
+
+// Graph mode
+export { createGraphNavigator, sortGraph, graphToItems } from './graph.js';
+
+// Framework-neutral store (adapters live on subpaths)
+export { getNavigatorStore, bindMoves } from './store.js';
+
+// Persistence
+export {
+  createSessionStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+} from './storage.js';
+
+// Progress
+export { createProgress, getCompletion } from './progress.js';
+
+// Validation
+export { validateItems, normalizeItems, formatItemErrors } from './validate.js';
+
 // Stateless utilities
-export { flattenSlugs, getNeighbors } from './utils.js';
+export {
+  flattenSlugs,
+  flattenEntries,
+  getNeighbors,
+  getNeighborEntries,
+  findDuplicateSlugs,
+  getBreadcrumbs,
+  getAncestors,
+  getDescendants,
+  getSiblings,
+  getDepth,
+  findBranch,
+  getSubtree,
+  getSectionNeighbors,
+  getSectionNeighborEntries,
+} from './utils.js';
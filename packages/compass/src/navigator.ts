@@ -6,117 +6,785 @@
  *   const nav = createNavigator({ items: ['a', 'b', 'c'] });
  *   nav.next();
  *   console.log(nav.current); // 'b'
+ *
+ * Moves are O(1) or O(depth) thanks to the lookup tables built by
+ * flattenTree. Expansion changes and tree mutations rebuild them in O(n).
  */
 
 import type {
+  NavItem,
   NavBranch,
   Navigator,
   NavigatorConfig,
   InternalNode,
+  FlatList,
+  DuplicateSlugMode,
+  NavigatorState,
+  NavPredicate,
+  NavLabel,
+  FindOptions,
+  NavCause,
+  NavDirection,
+  NavEvents,
 } from './types.js';
-import { isBranch, getSlug } from './helpers.js';
-import { buildFlatList } from './buildFlatList.js';
+import { isBranch, hasLoader, getData } from './helpers.js';
+import {
+  buildTree,
+  indexTree,
+  flattenTree,
+  joinPath,
+  type TreeIndex,
+} from './buildFlatList.js';
+import { createJumpList } from './history.js';
+import { createEmitter } from './events.js';
+
+/** Version written by serialize() and accepted by restore() */
+const STATE_VERSION = 1;
+
+/**
+ * Check a snapshot's version and shape before loading it. Snapshots
+ * come from storage as unchecked JSON, so stale or corrupt ones are
+ * ignored rather than thrown on.
+ */
+function isNavigatorState(state: unknown): state is NavigatorState {
+  if (!isObject(state) || state.version !== STATE_VERSION) return false;
+
+  const { current, collapsed, history, marks } = state;
+  return (
+    (current === null ||
+      (isNodeRef(current) && typeof current.index === 'number')) &&
+    isStringArray(collapsed) &&
+    (history === undefined ||
+      (isObject(history) &&
+        isStringArray(history.entries) &&
+        typeof history.index === 'number')) &&
+    (marks === undefined ||
+      (isObject(marks) && Object.values(marks).every(isNodeRef)))
+  );
+}
+
+/** A saved { path, slug } pair, as used for the cursor and marks */
+function isNodeRef(
+  value: unknown
+): value is Record<string, unknown> & { path: string; slug: string } {
+  return (
+    isObject(value) &&
+    typeof value.path === 'string' &&
+    typeof value.slug === 'string'
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+  );
+}
 
 /**
  * Create a navigator for the given items.
  */
-export function createNavigator(config: NavigatorConfig): Navigator {
-  const { items, wrap = true, leavesOnly = false, onChange } = config;
+export function createNavigator<T = unknown>(
+  config: NavigatorConfig<T>
+): Navigator<T> {
+  const {
+    wrap = true,
+    leavesOnly = false,
+    expanded = true,
+    duplicateSlugs = 'ignore',
+    keepAncestors = false,
+    order = 'preorder',
+    initialState,
+    onChange,
+    onExpansionChange,
+    onSelectionChange,
+  } = config;
+  const historyConfig =
+    config.history === true ? {} : config.history || null;
+
+  let filter = config.filter ?? null;
+
+  // Mutations edit these item arrays in place, so `root` stays current
+  let items = config.items;
+  let roots = buildTree(items);
+  let tree = indexTree(roots);
+  checkDuplicates(tree, duplicateSlugs);
+
+  // Expansion state is tracked as the set of collapsed branch nodes,
+  // so duplicate slugs expand independently
+  let collapsed = new Set<InternalNode<T>>(
+    expanded === true
+      ? []
+      : expanded === false
+        ? tree.branches
+        : tree.branches.filter(
+            (node) => !expanded.some((target) => findBranch(target) === node)
+          )
+  );
+
+  // Jump list for back()/forward(), null when history is disabled
+  const jumps = historyConfig
+    ? createJumpList(historyConfig.depth, historyConfig.initial)
+    : null;
+  const recordAll = historyConfig?.record === 'all';
+
+  const events = createEmitter<NavEvents<T>>();
+
+  // In-flight loads of lazy branches, shared by concurrent callers
+  const loads = new Map<InternalNode<T>, Promise<void>>();
+
+  // Branches whose last load failed; next() moves past them
+  const failedLoads = new Set<InternalNode<T>>();
+
+  // Selected nodes, plus the anchor that extendSelection() ranges from
+  let selected = new Set<InternalNode<T>>();
+  let anchor: InternalNode<T> | null = null;
 
-  const flatList = buildFlatList(items, leavesOnly);
+  // The expanded and selected lists, built on first read and dropped
+  // when expansion, selection or the tree changes, so stores can read
+  // them on every update without walking the tree
+  let expandedList: readonly string[] | null = null;
+  let selectionLists: {
+    slugs: readonly string[];
+    paths: readonly string[];
+  } | null = null;
+
+  // Named marks, kept by path and slug so they survive tree changes
+  const marks = new Map<string, { path: string; slug: string }>();
+
+  let flatList = computeFlatList();
   // Start at index 0 if items exist, otherwise -1 (empty list)
-  let currentIdx = flatList.length > 0 ? 0 : -1;
+  let currentIdx = flatList.nodes.length > 0 ? 0 : -1;
+
+  if (isNavigatorState(initialState)) {
+    applyState(initialState);
+    flatList = computeFlatList();
+    currentIdx = resolveCursor(initialState.current);
+  }
+
+  function computeFlatList(): FlatList<T> {
+    return flattenTree(roots, {
+      leavesOnly,
+      isCollapsed: (node) => collapsed.has(node),
+      filter,
+      keepAncestors,
+      order,
+    });
+  }
 
-  function getCurrent(): InternalNode | null {
-    return currentIdx >= 0 && currentIdx < flatList.length
-      ? flatList[currentIdx]
+  function getCurrent(): InternalNode<T> | null {
+    return currentIdx >= 0 && currentIdx < flatList.nodes.length
+      ? flatList.nodes[currentIdx]
       : null;
   }
 
-  function setIndex(newIndex: number): void {
-    const prevSlug = getCurrent()?.slug ?? null;
+  function indexOf(node: InternalNode<T>): number {
+    return flatList.indexByNode.get(node) ?? -1;
+  }
+
+  function setIndex(
+    newIndex: number,
+    cause: NavCause,
+    prevNode: InternalNode<T> | null = getCurrent()
+  ): void {
+    const prevSlug = prevNode?.slug ?? null;
     currentIdx = newIndex;
-    const nextSlug = getCurrent()?.slug ?? null;
+    const next = getCurrent();
+    const nextSlug = next?.slug ?? null;
+    const data = next ? getData(next.item) : undefined;
 
     if (onChange && prevSlug !== nextSlug) {
-      onChange(prevSlug, nextSlug, currentIdx);
+      onChange(prevSlug, nextSlug, currentIdx, data);
+    }
+    if (next !== prevNode) {
+      events.emit('change', {
+        prev: prevSlug,
+        prevPath: prevNode?.path ?? null,
+        next: nextSlug,
+        nextPath: next?.path ?? null,
+        index: currentIdx,
+        data,
+        cause,
+      });
+    }
+
+    events.emit('update', undefined);
+
+    // With leavesOnly an unloaded branch is only a stand-in for its
+    // leaves, so landing on it starts loading them
+    if (leavesOnly && next && next !== prevNode && needsLoad(next)) {
+      loadChildren(next).catch(ignore);
     }
   }
 
-  function findNextSiblingIndex(internal: InternalNode): number {
-    let current: InternalNode | null = internal;
+  /**
+   * Move the cursor on behalf of a navigation method, recording the
+   * position being left in history when the move qualifies.
+   */
+  function moveTo(newIndex: number, cause: NavCause, jump = false): void {
+    const prevNode = getCurrent();
+    if (
+      jumps &&
+      prevNode &&
+      (jump || recordAll) &&
+      flatList.nodes[newIndex] !== prevNode
+    ) {
+      jumps.record(prevNode.path);
+    }
+    setIndex(newIndex, cause, prevNode);
+  }
+
+  /**
+   * Move the cursor one step in flat or sibling order. A missing target
+   * wraps to the other end, or reports a boundary when wrap is off.
+   */
+  function step(
+    target: number,
+    wrapTo: number,
+    direction: NavDirection,
+    cause: NavCause
+  ): void {
+    if (target !== -1) {
+      moveTo(target, cause);
+    } else if (wrap) {
+      events.emit('wrap', { cause, direction, from: currentIdx, to: wrapTo });
+      moveTo(wrapTo, cause);
+    } else {
+      events.emit('boundary', { cause, direction, index: currentIdx });
+    }
+  }
 
-    while (current) {
-      const parent: InternalNode | null = current.parent;
-      const siblings = parent ? (parent.item as NavBranch).children : items;
-      const nextSiblingIdx = current.indexInParent + 1;
+  /**
+   * Move to a target index, or report a blocked move if there is none
+   */
+  function moveOrBlock(target: number, cause: NavCause, jump = false): void {
+    if (target !== -1) {
+      moveTo(target, cause, jump);
+    } else {
+      events.emit('blocked', { cause, index: currentIdx });
+    }
+  }
 
-      if (nextSiblingIdx < siblings.length) {
-        const nextSibling = siblings[nextSiblingIdx];
-        const nextSlug = getSlug(nextSibling);
-        // Find in flat list
-        const flatIdx = flatList.findIndex(
-          (n) => n.slug === nextSlug && n.depth === current!.depth
-        );
-        if (flatIdx !== -1) return flatIdx;
-        // If branch was skipped (leavesOnly), find first descendant
-        const descendantIdx = flatList.findIndex((n) => {
-          let check: InternalNode | null = n;
-          while (check) {
-            if (getSlug(check.item) === nextSlug) return true;
-            check = check.parent;
-          }
-          return false;
-        });
-        if (descendantIdx !== -1) return descendantIdx;
+  function moveAtDepth(depth: number, forward: boolean, cause: NavCause): void {
+    const idx = findAtDepthIndex(depth, forward);
+    const direction: NavDirection = forward ? 'forward' : 'backward';
+
+    if (idx === -1) {
+      if (wrap || depth < 0) {
+        events.emit('blocked', { cause, index: currentIdx });
+      } else {
+        events.emit('boundary', { cause, direction, index: currentIdx });
       }
+      return;
+    }
 
-      current = parent;
+    if (forward ? idx < currentIdx : idx > currentIdx) {
+      events.emit('wrap', { cause, direction, from: currentIdx, to: idx });
     }
+    moveTo(idx, cause);
+  }
 
-    return -1;
+  function canVisit(path: string): boolean {
+    return flatList.indexByPath.has(path);
   }
 
-  function findPrevSiblingIndex(internal: InternalNode): number {
-    const parent = internal.parent;
-    const siblings = parent ? (parent.item as NavBranch).children : items;
-    const prevSiblingIdx = internal.indexInParent - 1;
+  /**
+   * Recompute visible nodes after an expansion, filter or tree change.
+   * Keeps the current node if still visible. A hidden node moves the
+   * cursor to its nearest visible ancestor, or else the nearest visible
+   * node in tree order; a removed node moves it to the closest surviving
+   * neighbour in the previous order.
+   */
+  function refresh(cause: NavCause): void {
+    const prevNode = getCurrent();
+    const prevList = flatList.nodes;
+    const prevIdx = currentIdx;
+    flatList = computeFlatList();
+
+    setIndex(relocate(prevNode, prevList, prevIdx), cause, prevNode);
+  }
 
-    if (prevSiblingIdx >= 0) {
-      const prevSibling = siblings[prevSiblingIdx];
-      const prevSlug = getSlug(prevSibling);
-      const flatIdx = flatList.findIndex((n) => n.slug === prevSlug);
-      if (flatIdx !== -1) return flatIdx;
+  function relocate(
+    node: InternalNode<T> | null,
+    prevList: InternalNode<T>[],
+    prevIdx: number
+  ): number {
+    const fallback = flatList.nodes.length > 0 ? 0 : -1;
+    if (!node) return fallback;
+
+    if (isAttached(node)) {
+      for (let n: InternalNode<T> | null = node; n; n = n.parent) {
+        const idx = indexOf(n);
+        if (idx !== -1) return idx;
+      }
+      for (let n = nextInTree(node); n; n = nextInTree(n)) {
+        const idx = indexOf(n);
+        if (idx !== -1) return idx;
+      }
+      for (let n = prevInTree(node); n; n = prevInTree(n)) {
+        const idx = indexOf(n);
+        if (idx !== -1) return idx;
+      }
+      return fallback;
     }
 
-    return -1;
+    for (let i = prevIdx + 1; i < prevList.length; i++) {
+      const idx = indexOf(prevList[i]);
+      if (idx !== -1) return idx;
+    }
+    for (let i = prevIdx - 1; i >= 0; i--) {
+      const idx = indexOf(prevList[i]);
+      if (idx !== -1) return idx;
+    }
+    return fallback;
   }
 
-  function findParentIndex(internal: InternalNode): number {
-    if (!internal.parent) return -1;
-    return flatList.findIndex((n) => n.item === internal.parent!.item);
+  /**
+   * Next node in DFS pre-order over the whole tree, hidden nodes included
+   */
+  function nextInTree(node: InternalNode<T>): InternalNode<T> | null {
+    if (node.children.length > 0) return node.children[0];
+
+    for (let n: InternalNode<T> | null = node; n; n = n.parent) {
+      const siblings = n.parent ? n.parent.children : roots;
+      const next = siblings[n.indexInParent + 1];
+      if (next) return next;
+    }
+    return null;
   }
 
-  function findFirstChildIndex(internal: InternalNode): number {
-    if (!isBranch(internal.item)) return -1;
-    const children = internal.item.children;
-    if (children.length === 0) return -1;
+  /**
+   * Previous node in DFS pre-order over the whole tree, hidden nodes included
+   */
+  function prevInTree(node: InternalNode<T>): InternalNode<T> | null {
+    const siblings = node.parent ? node.parent.children : roots;
+    let prev = siblings[node.indexInParent - 1];
+    if (!prev) return node.parent;
 
-    const firstChild = children[0];
-    const firstSlug = getSlug(firstChild);
+    while (prev.children.length > 0) {
+      prev = prev.children[prev.children.length - 1];
+    }
+    return prev;
+  }
 
-    for (let i = 0; i < flatList.length; i++) {
-      if (
-        flatList[i].slug === firstSlug &&
-        flatList[i].parent?.item === internal.item
-      ) {
-        return i;
+  /**
+   * Check whether a node is still part of the tree
+   */
+  function isAttached(node: InternalNode<T>): boolean {
+    for (let n: InternalNode<T> | null = node; n; n = n.parent) {
+      const siblings: InternalNode<T>[] = n.parent
+        ? n.parent.children
+        : roots;
+      if (siblings[n.indexInParent] !== n) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Resolve a parent slug (null for root level) to the item and node
+   * arrays that hold its children. Returns null for leaves and unknown slugs.
+   */
+  function childListsOf(
+    parentSlug: string | null
+  ): { parent: InternalNode<T> | null; list: NavItem<T>[] } | null {
+    if (parentSlug === null) return { parent: null, list: items };
+
+    const parent = tree.nodeBySlug.get(parentSlug);
+    const children =
+      parent && isBranch(parent.item) ? parent.item.children : null;
+    // Unloaded branches have no child list to edit yet
+    if (!parent || !Array.isArray(children)) return null;
+    return { parent, list: children };
+  }
+
+  function attach(
+    node: InternalNode<T>,
+    parent: InternalNode<T> | null,
+    list: NavItem<T>[],
+    index: number
+  ): void {
+    const nodes = parent ? parent.children : roots;
+    const at = Math.max(0, Math.min(index, nodes.length));
+
+    list.splice(at, 0, node.item);
+    nodes.splice(at, 0, node);
+    reindex(nodes, parent);
+  }
+
+  function detach(node: InternalNode<T>): void {
+    const parent = node.parent;
+    // A parent with child nodes is always loaded
+    const list = parent
+      ? ((parent.item as NavBranch<T>).children as NavItem<T>[])
+      : items;
+    const nodes = parent ? parent.children : roots;
+
+    list.splice(node.indexInParent, 1);
+    nodes.splice(node.indexInParent, 1);
+    reindex(nodes, parent);
+  }
+
+  function treeChanged(cause: NavCause): void {
+    tree = indexTree(roots);
+    collapsed = new Set([...collapsed].filter(isAttached));
+    expandedList = null;
+    selectionLists = null;
+    for (const node of failedLoads) {
+      if (!isAttached(node)) failedLoads.delete(node);
+    }
+    refresh(cause);
+    setSelection(
+      [...selected].filter(isAttached),
+      anchor && isAttached(anchor) ? anchor : null
+    );
+  }
+
+  /**
+   * Selected slugs and paths in tree order, cached until they change
+   */
+  function selectionList(): NonNullable<typeof selectionLists> {
+    if (!selectionLists) {
+      const nodes = selectedNodes();
+      selectionLists = {
+        slugs: nodes.map((node) => node.slug),
+        paths: nodes.map((node) => node.path),
+      };
+    }
+    return selectionLists;
+  }
+
+  /**
+   * Selected nodes in DFS pre-order over the whole tree
+   */
+  function selectedNodes(): InternalNode<T>[] {
+    const result: InternalNode<T>[] = [];
+    if (selected.size === 0) return result;
+
+    const visit = (nodes: InternalNode<T>[]) => {
+      for (const node of nodes) {
+        if (selected.has(node)) result.push(node);
+        visit(node.children);
+      }
+    };
+    visit(roots);
+    return result;
+  }
+
+  /**
+   * Replace the selection and anchor, firing onSelectionChange when
+   * the selected paths differ (setItems swaps nodes for equal ones)
+   */
+  function setSelection(
+    nodes: Iterable<InternalNode<T>>,
+    newAnchor: InternalNode<T> | null
+  ): void {
+    const next = new Set(nodes);
+    const prevPaths = new Set([...selected].map((node) => node.path));
+    const changed =
+      next.size !== selected.size ||
+      [...next].some((node) => !prevPaths.has(node.path));
+
+    selected = next;
+    anchor = newAnchor;
+    selectionLists = null;
+
+    if (!changed) return;
+    if (onSelectionChange) {
+      onSelectionChange(selectedNodes().map((node) => node.slug));
+    }
+    events.emit('update', undefined);
+  }
+
+  /**
+   * Visible nodes between two nodes in flat order, inclusive.
+   * Returns null if either end is not visible.
+   */
+  function flatRange(
+    from: InternalNode<T>,
+    to: InternalNode<T>
+  ): InternalNode<T>[] | null {
+    const a = indexOf(from);
+    const b = indexOf(to);
+    if (a === -1 || b === -1) return null;
+
+    return flatList.nodes.slice(Math.min(a, b), Math.max(a, b) + 1);
+  }
+
+  /**
+   * Whether a node is an expanded branch still waiting for its children
+   */
+  function needsLoad(node: InternalNode<T>): boolean {
+    return hasLoader(node.item) && !collapsed.has(node);
+  }
+
+  /**
+   * Resolve a lazy branch's loader and splice the children into the
+   * tree. Concurrent calls for one branch share a single request.
+   */
+  function loadChildren(node: InternalNode<T>): Promise<void> {
+    const { item } = node;
+    if (!hasLoader(item)) return Promise.resolve();
+
+    const pending = loads.get(node);
+    if (pending) return pending;
+
+    const loader = item.children;
+    const { slug, path } = node;
+    failedLoads.delete(node);
+
+    const promise = loader().then(
+      (children) => {
+        loads.delete(node);
+        // Drop the result if the branch was removed or replaced meanwhile
+        if (item.children !== loader || !isAttached(node)) {
+          events.emit('update', undefined);
+          return;
+        }
+
+        (item as NavBranch<T>).children = children;
+        node.children = buildTree(children, node);
+        treeChanged('load');
+        events.emit('load', { slug, path, state: 'loaded' });
+      },
+      (error: unknown) => {
+        loads.delete(node);
+        if (isAttached(node)) failedLoads.add(node);
+        events.emit('load', { slug, path, state: 'error', error });
+        events.emit('update', undefined);
+        throw error;
+      }
+    );
+    loads.set(node, promise);
+    events.emit('load', { slug, path, state: 'loading' });
+    events.emit('update', undefined);
+    return promise;
+  }
+
+  /**
+   * Load a branch, then repeat a move if the cursor is still on it.
+   * Load errors are reported through the 'load' event; with
+   * `retryOnError` the move is repeated after them too.
+   */
+  function loadThen(
+    node: InternalNode<T>,
+    retry: () => void,
+    retryOnError = false
+  ): void {
+    loadChildren(node).then(
+      () => {
+        if (getCurrent() === node) retry();
+      },
+      () => {
+        if (retryOnError && getCurrent() === node) retry();
+      }
+    );
+  }
+
+  /**
+   * Start loading an expanded lazy branch so its children can be shown
+   */
+  function prefetch(node: InternalNode<T> | null): void {
+    if (node && needsLoad(node)) loadChildren(node).catch(ignore);
+  }
+
+  /**
+   * Find a branch by path, else by slug (first match)
+   */
+  function findBranch(target: string): InternalNode<T> | null {
+    const node = tree.nodeByPath.get(target) ?? tree.nodeBySlug.get(target);
+    return node && isBranch(node.item) ? node : null;
+  }
+
+  function setExpanded(
+    nodes: (InternalNode<T> | null)[],
+    expand: boolean,
+    cause: NavCause
+  ): void {
+    const changed = nodes.filter(
+      (node): node is InternalNode<T> =>
+        node !== null && collapsed.has(node) === expand
+    );
+    if (changed.length === 0) return;
+
+    for (const node of changed) {
+      if (expand) collapsed.delete(node);
+      else collapsed.add(node);
+    }
+    expandedList = null;
+    refresh(cause);
+
+    if (onExpansionChange) {
+      for (const node of changed) onExpansionChange(node.slug, expand);
+    }
+  }
+
+  /**
+   * Load collapsed branches and history from a snapshot.
+   * Returns the branches whose expansion state changed.
+   */
+  function applyState(state: NavigatorState): InternalNode<T>[] {
+    const next = new Set(
+      state.collapsed.flatMap((target) => findBranch(target) ?? [])
+    );
+    const changed = tree.branches.filter(
+      (node) => next.has(node) !== collapsed.has(node)
+    );
+
+    collapsed = next;
+    expandedList = null;
+    if (jumps && state.history) jumps.restore(state.history);
+    if (state.marks) {
+      marks.clear();
+      for (const [name, { path, slug }] of Object.entries(state.marks)) {
+        marks.set(name, { path, slug });
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Find a marked node: same path, else the first node with the slug.
+   * Refreshes the saved path, so moved nodes keep resolving by path.
+   */
+  function resolveMark(mark: {
+    path: string;
+    slug: string;
+  }): InternalNode<T> | null {
+    const node =
+      tree.nodeByPath.get(mark.path) ?? tree.nodeBySlug.get(mark.slug);
+    if (!node || node.slug !== mark.slug) return null;
+
+    mark.path = node.path;
+    return node;
+  }
+
+  /**
+   * Find the flat index for a saved cursor: same path, else same slug,
+   * else the saved index clamped to the current list
+   */
+  function resolveCursor(saved: NavigatorState['current']): number {
+    const count = flatList.nodes.length;
+    if (count === 0) return -1;
+    if (!saved) return 0;
+
+    return (
+      flatList.indexByPath.get(saved.path) ??
+      flatList.indexBySlug.get(saved.slug) ??
+      Math.max(0, Math.min(saved.index, count - 1))
+    );
+  }
+
+  /**
+   * Flat index to land on for a node: the node itself, or its first
+   * visible descendant when the node is skipped (leavesOnly, filter).
+   */
+  function landingIndex(node: InternalNode<T>): number {
+    const idx = indexOf(node);
+    if (idx !== -1) return idx;
+
+    const range = flatList.ranges.get(node);
+    return range && range.start < range.end ? range.start : -1;
+  }
+
+  /**
+   * Landing index of the nearest following sibling that has one,
+   * climbing to the parent's siblings once a level runs out. Siblings
+   * hidden by the filter or left out of a custom order are skipped.
+   */
+  function findNextSiblingIndex(internal: InternalNode<T>): number {
+    for (let n: InternalNode<T> | null = internal; n; n = n.parent) {
+      const siblings = siblingsOf(n);
+      for (let i = n.indexInParent + 1; i < siblings.length; i++) {
+        const idx = landingIndex(siblings[i]);
+        if (idx !== -1) return idx;
       }
     }
+
+    return -1;
+  }
+
+  /**
+   * Landing index of the nearest preceding sibling that has one
+   */
+  function findPrevSiblingIndex(internal: InternalNode<T>): number {
+    const siblings = siblingsOf(internal);
+    for (let i = internal.indexInParent - 1; i >= 0; i--) {
+      const idx = landingIndex(siblings[i]);
+      if (idx !== -1) return idx;
+    }
+
+    return -1;
+  }
+
+  function findParentIndex(internal: InternalNode<T>): number {
+    return internal.parent ? indexOf(internal.parent) : -1;
+  }
+
+  function findFirstChildIndex(internal: InternalNode<T>): number {
+    const firstChild = internal.children[0];
+    return firstChild ? indexOf(firstChild) : -1;
+  }
+
+  /**
+   * Landing index of the first (or last) node in a list that has one
+   */
+  function firstLanding(nodes: InternalNode<T>[], fromEnd = false): number {
+    for (let i = 0; i < nodes.length; i++) {
+      const idx = landingIndex(nodes[fromEnd ? nodes.length - 1 - i : i]);
+      if (idx !== -1) return idx;
+    }
+    return -1;
+  }
+
+  function siblingsOf(node: InternalNode<T>): InternalNode<T>[] {
+    return node.parent ? node.parent.children : roots;
+  }
+
+  /**
+   * The ancestor-or-self of a node at the given depth (null if shallower)
+   */
+  function ancestorAtDepth(
+    node: InternalNode<T>,
+    depth: number
+  ): InternalNode<T> | null {
+    let n: InternalNode<T> | null = node;
+    while (n && n.depth > depth) n = n.parent;
+    return n && n.depth === depth ? n : null;
+  }
+
+  /**
+   * Find the landing index of the next (or previous) node at a depth,
+   * scanning in flat order. Nodes skipped by leavesOnly or a filter are
+   * represented by their first visible descendant, like nextSibling().
+   */
+  function findAtDepthIndex(depth: number, forward: boolean): number {
+    const current = getCurrent();
+    const count = flatList.nodes.length;
+    if (!current || depth < 0) return -1;
+
+    const own = ancestorAtDepth(current, depth);
+
+    // Moving back from inside a group first returns to the group's start
+    if (!forward && own) {
+      const start = landingIndex(own);
+      if (start !== -1 && start < currentIdx) return start;
+    }
+
+    const remaining = forward ? count - 1 - currentIdx : currentIdx;
+    const steps = wrap ? count - 1 : remaining;
+    for (let step = 1; step <= steps; step++) {
+      const idx = (currentIdx + (forward ? step : -step) + count) % count;
+      const target = ancestorAtDepth(flatList.nodes[idx], depth);
+      if (target && target !== own) return landingIndex(target);
+    }
     return -1;
   }
 
-  const navigator: Navigator = {
+  const navigator: Navigator<T> = {
     get root() {
       return items;
     },
@@ -125,99 +793,576 @@ export function createNavigator(config: NavigatorConfig): Navigator {
       return getCurrent()?.slug ?? null;
     },
 
+    get currentPath() {
+      return getCurrent()?.path ?? null;
+    },
+
     get currentItem() {
       return getCurrent()?.item ?? null;
     },
 
+    get currentData() {
+      const current = getCurrent();
+      return current ? getData(current.item) : undefined;
+    },
+
     get currentIndex() {
       return currentIdx;
     },
 
     get count() {
-      return flatList.length;
+      return flatList.nodes.length;
+    },
+
+    get loading() {
+      return loads.size > 0;
+    },
+
+    isLoaded(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      return !!node && !hasLoader(node.item);
+    },
+
+    load(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      return node ? loadChildren(node) : Promise.resolve();
     },
 
     next() {
-      if (flatList.length === 0) return;
+      const count = flatList.nodes.length;
+      if (count === 0) return;
 
-      let newIndex = currentIdx + 1;
-      if (newIndex >= flatList.length) {
-        newIndex = wrap ? 0 : flatList.length - 1;
+      // In pre-order an unloaded branch's children come next. If its
+      // load failed, move past it rather than retrying on every call.
+      const current = getCurrent();
+      if (
+        current &&
+        order === 'preorder' &&
+        needsLoad(current) &&
+        !failedLoads.has(current)
+      ) {
+        loadThen(current, () => navigator.next(), true);
+        return;
       }
-      setIndex(newIndex);
+
+      const newIndex = currentIdx + 1 < count ? currentIdx + 1 : -1;
+      step(newIndex, 0, 'forward', 'next');
     },
 
     prev() {
-      if (flatList.length === 0) return;
+      const count = flatList.nodes.length;
+      if (count === 0) return;
 
-      let newIndex = currentIdx - 1;
-      if (newIndex < 0) {
-        newIndex = wrap ? flatList.length - 1 : 0;
-      }
-      setIndex(newIndex);
+      step(currentIdx - 1, count - 1, 'backward', 'prev');
     },
 
     nextSibling() {
       const current = getCurrent();
       if (!current) return;
 
-      const nextIdx = findNextSiblingIndex(current);
-      if (nextIdx !== -1) {
-        setIndex(nextIdx);
-      } else if (wrap && flatList.length > 0) {
-        setIndex(0);
-      }
+      step(findNextSiblingIndex(current), 0, 'forward', 'nextSibling');
     },
 
     prevSibling() {
       const current = getCurrent();
       if (!current) return;
 
-      const prevIdx = findPrevSiblingIndex(current);
-      if (prevIdx !== -1) {
-        setIndex(prevIdx);
-      } else if (wrap && flatList.length > 0) {
-        setIndex(flatList.length - 1);
-      }
+      const last = flatList.nodes.length - 1;
+      step(findPrevSiblingIndex(current), last, 'backward', 'prevSibling');
     },
 
     parent() {
       const current = getCurrent();
       if (!current) return;
 
-      const parentIdx = findParentIndex(current);
-      if (parentIdx !== -1) {
-        setIndex(parentIdx);
-      }
+      moveOrBlock(findParentIndex(current), 'parent');
     },
 
     firstChild() {
       const current = getCurrent();
       if (!current) return;
+      if (needsLoad(current)) {
+        loadThen(current, () => navigator.firstChild());
+        return;
+      }
+
+      moveOrBlock(findFirstChildIndex(current), 'firstChild');
+    },
+
+    nextAtDepth(depth: number) {
+      moveAtDepth(depth, true, 'nextAtDepth');
+    },
+
+    prevAtDepth(depth: number) {
+      moveAtDepth(depth, false, 'prevAtDepth');
+    },
+
+    nextAtSameDepth() {
+      const current = getCurrent();
+      if (current) moveAtDepth(current.depth, true, 'nextAtSameDepth');
+    },
+
+    prevAtSameDepth() {
+      const current = getCurrent();
+      if (current) moveAtDepth(current.depth, false, 'prevAtSameDepth');
+    },
+
+    lastChild() {
+      const current = getCurrent();
+      if (!current) return;
+      if (needsLoad(current)) {
+        loadThen(current, () => navigator.lastChild());
+        return;
+      }
+
+      moveOrBlock(firstLanding(current.children, true), 'lastChild');
+    },
 
-      const childIdx = findFirstChildIndex(current);
-      if (childIdx !== -1) {
-        setIndex(childIdx);
+    nthChild(n: number) {
+      const current = getCurrent();
+      if (!current) return;
+      if (needsLoad(current)) {
+        loadThen(current, () => navigator.nthChild(n));
+        return;
       }
+
+      const child = current.children[n];
+      moveOrBlock(child ? landingIndex(child) : -1, 'nthChild');
+    },
+
+    firstSibling() {
+      const current = getCurrent();
+      if (!current) return;
+
+      moveOrBlock(firstLanding(siblingsOf(current)), 'firstSibling');
+    },
+
+    lastSibling() {
+      const current = getCurrent();
+      if (!current) return;
+
+      moveOrBlock(firstLanding(siblingsOf(current), true), 'lastSibling');
     },
 
     goTo(index: number) {
-      if (index >= 0 && index < flatList.length) {
-        setIndex(index);
-      }
+      const valid = index >= 0 && index < flatList.nodes.length;
+      moveOrBlock(valid ? index : -1, 'goTo', true);
     },
 
     goToSlug(slug: string) {
-      const idx = flatList.findIndex((n) => n.slug === slug);
-      if (idx !== -1) {
-        setIndex(idx);
-      }
+      moveOrBlock(flatList.indexBySlug.get(slug) ?? -1, 'goToSlug', true);
+    },
+
+    goToPath(path: string) {
+      moveOrBlock(flatList.indexByPath.get(path) ?? -1, 'goToPath', true);
     },
 
     reset() {
-      setIndex(flatList.length > 0 ? 0 : -1);
+      moveTo(flatList.nodes.length > 0 ? 0 : -1, 'reset', true);
+    },
+
+    findNext(match: NavPredicate<T> | string, options: FindOptions<T> = {}) {
+      const {
+        from = currentIdx,
+        direction = 'forward',
+        wrap: wrapSearch = wrap,
+        label,
+      } = options;
+      const count = flatList.nodes.length;
+      const test =
+        typeof match === 'string' ? prefixMatcher(match, label) : match;
+      const step = direction === 'backward' ? -1 : 1;
+
+      for (let i = 1; i <= count; i++) {
+        let idx = from + step * i;
+        if (idx < 0 || idx >= count) {
+          if (!wrapSearch) break;
+          idx = ((idx % count) + count) % count;
+        }
+
+        const node = flatList.nodes[idx];
+        if (test(node.slug, getData(node.item), node.item)) return idx;
+      }
+      return -1;
+    },
+
+    get canGoBack() {
+      return jumps?.canGoBack ?? false;
+    },
+
+    get canGoForward() {
+      return jumps?.canGoForward ?? false;
+    },
+
+    get history() {
+      return jumps?.snapshot() ?? { entries: [], index: 0 };
+    },
+
+    serialize() {
+      const current = getCurrent();
+      const state: NavigatorState = {
+        version: STATE_VERSION,
+        current: current
+          ? { path: current.path, slug: current.slug, index: currentIdx }
+          : null,
+        collapsed: tree.branches
+          .filter((node) => collapsed.has(node))
+          .map((node) => node.path),
+      };
+      if (jumps) state.history = jumps.snapshot();
+      if (marks.size > 0) {
+        state.marks = Object.fromEntries(
+          [...marks].map(([name, { path, slug }]) => [name, { path, slug }])
+        );
+      }
+      return state;
+    },
+
+    restore(state: NavigatorState) {
+      if (!isNavigatorState(state)) return;
+
+      const prevNode = getCurrent();
+      const changed = applyState(state);
+      flatList = computeFlatList();
+      setIndex(resolveCursor(state.current), 'restore', prevNode);
+
+      if (onExpansionChange) {
+        for (const node of changed) {
+          onExpansionChange(node.slug, !collapsed.has(node));
+        }
+      }
+    },
+
+    get marks() {
+      return [...marks]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, mark]) => {
+          const stale = !resolveMark(mark);
+          return { name, slug: mark.slug, path: mark.path, stale };
+        });
+    },
+
+    setMark(name: string, slug?: string) {
+      const node =
+        slug === undefined ? getCurrent() : tree.nodeBySlug.get(slug);
+      if (node) marks.set(name, { path: node.path, slug: node.slug });
+    },
+
+    jumpToMark(name: string) {
+      const mark = marks.get(name);
+      const node = mark ? resolveMark(mark) : null;
+      moveOrBlock(node ? indexOf(node) : -1, 'jumpToMark', true);
+    },
+
+    clearMark(name: string) {
+      marks.delete(name);
+    },
+
+    back() {
+      const current = getCurrent();
+      if (!jumps || !current) return;
+
+      const path = jumps.back(current.path, canVisit);
+      if (path !== null) {
+        setIndex(flatList.indexByPath.get(path)!, 'back');
+      } else {
+        events.emit('blocked', { cause: 'back', index: currentIdx });
+      }
+    },
+
+    forward() {
+      if (!jumps) return;
+
+      const path = jumps.forward(canVisit);
+      if (path !== null) {
+        setIndex(flatList.indexByPath.get(path)!, 'forward');
+      } else {
+        events.emit('blocked', { cause: 'forward', index: currentIdx });
+      }
+    },
+
+    setFilter(newFilter: NavPredicate<T> | null) {
+      filter = newFilter;
+      refresh('setFilter');
+    },
+
+    on(event, listener) {
+      return events.on(event, listener);
+    },
+
+    get expanded() {
+      expandedList ??= tree.branches
+        .filter((node) => !collapsed.has(node))
+        .map((node) => node.slug);
+      return expandedList;
+    },
+
+    isExpanded(target: string) {
+      const node = findBranch(target);
+      return node !== null && !collapsed.has(node);
+    },
+
+    expand(target: string) {
+      const node = findBranch(target);
+      setExpanded([node], true, 'expand');
+      prefetch(node);
+    },
+
+    collapse(target: string) {
+      setExpanded([findBranch(target)], false, 'collapse');
+    },
+
+    toggle(target: string) {
+      const node = findBranch(target);
+      setExpanded([node], node !== null && collapsed.has(node), 'toggle');
+      prefetch(node);
+    },
+
+    expandAll() {
+      setExpanded(tree.branches, true, 'expandAll');
+    },
+
+    collapseAll() {
+      setExpanded(tree.branches, false, 'collapseAll');
+    },
+
+    get selection() {
+      return selectionList().slugs;
+    },
+
+    get selectedPaths() {
+      return selectionList().paths;
+    },
+
+    get selectionAnchor() {
+      return anchor?.slug ?? null;
+    },
+
+    isSelected(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      return !!node && selected.has(node);
+    },
+
+    select(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      if (node) setSelection([node], node);
+    },
+
+    toggleSelect(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      if (!node) return;
+
+      const next = new Set(selected);
+      if (next.has(node)) next.delete(node);
+      else next.add(node);
+      setSelection(next, node);
+    },
+
+    selectRange(from: string, to: string) {
+      const fromNode = tree.nodeBySlug.get(from);
+      const toNode = tree.nodeBySlug.get(to);
+      if (!fromNode || !toNode) return;
+
+      const range = flatRange(fromNode, toNode);
+      if (range) setSelection(range, fromNode);
+    },
+
+    extendSelection(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      if (!node) return;
+
+      const range = anchor ? flatRange(anchor, node) : null;
+      if (range) setSelection(range, anchor);
+      else setSelection([node], node);
+    },
+
+    selectSubtree(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      if (!node) return;
+
+      const nodes: InternalNode<T>[] = [];
+      const visit = (n: InternalNode<T>) => {
+        nodes.push(n);
+        n.children.forEach(visit);
+      };
+      visit(node);
+      setSelection(nodes, node);
+    },
+
+    clearSelection() {
+      setSelection([], null);
+    },
+
+    insert(parentSlug: string | null, index: number, item: NavItem<T>) {
+      const target = childListsOf(parentSlug);
+      if (!target) return;
+
+      const [node] = buildTree([item], target.parent);
+      attach(node, target.parent, target.list, index);
+      treeChanged('insert');
+    },
+
+    remove(slug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      if (!node) return;
+
+      detach(node);
+      treeChanged('remove');
+    },
+
+    move(slug: string, newParentSlug: string | null, index: number) {
+      const node = tree.nodeBySlug.get(slug);
+      const target = childListsOf(newParentSlug);
+      if (!node || !target) return;
+
+      // Refuse to move a node into its own subtree
+      for (let n = target.parent; n; n = n.parent) {
+        if (n === node) return;
+      }
+
+      detach(node);
+      attach(node, target.parent, target.list, index);
+      treeChanged('move');
+    },
+
+    rename(slug: string, newSlug: string) {
+      const node = tree.nodeBySlug.get(slug);
+      if (!node || newSlug === slug) return;
+      const wasCurrent = getCurrent() === node;
+      const marked = [...marks.values()].filter(
+        (mark) => resolveMark(mark) === node
+      );
+
+      // String items are replaced in their list, objects renamed in place
+      if (typeof node.item === 'string') {
+        const list = node.parent
+          ? ((node.parent.item as NavBranch<T>).children as NavItem<T>[])
+          : items;
+        list[node.indexInParent] = newSlug;
+        node.item = newSlug;
+      } else {
+        node.item.slug = newSlug;
+      }
+      node.slug = newSlug;
+      reindex(node.parent ? node.parent.children : roots, node.parent);
+      for (const mark of marked) {
+        mark.slug = newSlug;
+        mark.path = node.path;
+      }
+
+      treeChanged('rename');
+
+      // The cursor didn't move, but the current slug changed
+      if (onChange && wasCurrent && getCurrent() === node) {
+        onChange(slug, newSlug, currentIdx, getData(node.item));
+      }
+    },
+
+    setItems(newItems: NavItem<T>[]) {
+      const prevNode = getCurrent();
+      const prevIdx = currentIdx;
+
+      const newRoots = buildTree(newItems);
+      const newTree = indexTree(newRoots);
+      checkDuplicates(newTree, duplicateSlugs);
+
+      // Carry collapsed branches over by path, else by slug
+      collapsed = new Set(
+        [...collapsed].flatMap((node) => {
+          const next =
+            newTree.nodeByPath.get(node.path) ??
+            newTree.nodeBySlug.get(node.slug);
+          return next && isBranch(next.item) ? [next] : [];
+        })
+      );
+
+      items = newItems;
+      roots = newRoots;
+      tree = newTree;
+      flatList = computeFlatList();
+      expandedList = null;
+      selectionLists = null;
+
+      // Keep the current path or slug if it survived,
+      // otherwise stay near the old index
+      const count = flatList.nodes.length;
+      let idx = prevNode
+        ? (flatList.indexByPath.get(prevNode.path) ??
+          flatList.indexBySlug.get(prevNode.slug) ??
+          -1)
+        : -1;
+      if (idx === -1 && count > 0) {
+        idx = Math.max(0, Math.min(prevIdx, count - 1));
+      }
+      setIndex(idx, 'setItems', prevNode);
+
+      // Carry the selection over by path
+      const carry = (node: InternalNode<T>) => tree.nodeByPath.get(node.path);
+      setSelection(
+        [...selected].flatMap((node) => carry(node) ?? []),
+        anchor ? (carry(anchor) ?? null) : null
+      );
     },
   };
 
   return navigator;
 }
+
+/**
+ * Swallow a rejection that is already reported through an event
+ */
+function ignore(): void {}
+
+/**
+ * Renumber siblings after they change and recompute parent, depth and
+ * path through their subtrees. Paths can shift for later siblings that
+ * share a slug, since those carry a `~n` suffix.
+ */
+function reindex<T>(
+  nodes: InternalNode<T>[],
+  parent: InternalNode<T> | null
+): void {
+  const seen = new Map<string, number>();
+  nodes.forEach((node, i) => {
+    const occurrence = seen.get(node.slug) ?? 0;
+    seen.set(node.slug, occurrence + 1);
+
+    node.parent = parent;
+    node.depth = parent ? parent.depth + 1 : 0;
+    node.indexInParent = i;
+    node.path = joinPath(parent, node.slug, occurrence);
+    reindex(node.children, node);
+  });
+}
+
+/**
+ * Case-insensitive "label starts with prefix" predicate
+ */
+function prefixMatcher<T>(
+  prefix: string,
+  label?: NavLabel<T>
+): NavPredicate<T> {
+  const needle = prefix.toLowerCase();
+  return (slug, data, item) =>
+    (label ? label(slug, data, item) : slug).toLowerCase().startsWith(needle);
+}
+
+/**
+ * Report duplicate slugs according to the configured mode
+ */
+function checkDuplicates<T>(
+  tree: TreeIndex<T>,
+  mode: DuplicateSlugMode
+): void {
+  if (mode === 'ignore' || tree.duplicates.length === 0) return;
+
+  const details = tree.duplicates
+    .map(({ slug, paths }) => `"${slug}" at ${paths.join(', ')}`)
+    .join('; ');
+  const message = `Duplicate slugs: ${details}`;
+
+  if (mode === 'throw') {
+    throw new Error(message);
+  }
+  console.warn(`[compass] ${message}`);
+}
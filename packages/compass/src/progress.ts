@@ -0,0 +1,384 @@
+/**
+ * Progress tracking for learning paths: visited and completed items,
+ * with branch completion computed from the items below them.
+ *
+ * - createProgress: Live progress bound to a navigator
+ * - getCompletion: Completion counts from a saved snapshot (SSG)
+ *
+ * @example
+ * ```typescript
+ * const progress = createProgress(nav, {
+ *   storage: createLocalStorageAdapter('course-progress'),
+ * });
+ *
+ * progress.markComplete('lesson-1');
+ * progress.completion('chapter-1'); // { completed: 1, total: 4, fraction: 0.25 }
+ * progress.nextIncomplete();
+ * ```
+ */
+
+import { buildTree } from './buildFlatList.js';
+import { createEmitter } from './events.js';
+import type { StorageAdapter } from './storage.js';
+import type { InternalNode, Navigator, NavItem } from './types.js';
+
+/**
+ * JSON snapshot of progress, from progress.serialize()
+ */
+export interface ProgressState {
+  visited: string[];
+
+  /** Completed items. Branches are complete through their descendants. */
+  completed: string[];
+}
+
+/**
+ * Completion of an item or the whole tree, e.g. for a progress bar
+ */
+export interface ProgressCount {
+  /** Completed leaves (unloaded and empty branches count as leaves) */
+  completed: number;
+  total: number;
+
+  /** completed / total, or 0 when there is nothing to complete */
+  fraction: number;
+}
+
+/**
+ * Payload of the progress 'change' event
+ */
+export interface ProgressChangeEvent {
+  type: 'visited' | 'complete' | 'incomplete' | 'reset';
+
+  /** Slugs whose state changed (empty for reset) */
+  slugs: string[];
+}
+
+/**
+ * Event map for progress.on()
+ */
+export interface ProgressEvents {
+  change: ProgressChangeEvent;
+}
+
+/**
+ * Options for createProgress
+ */
+export interface ProgressOptions {
+  /** Where to load progress from and save it to on every change */
+  storage?: StorageAdapter<ProgressState>;
+
+  /**
+   * State to start from (default: storage.load(), else nothing done).
+   * Malformed snapshots are ignored.
+   */
+  initialState?: ProgressState | null;
+
+  /** Mark items visited as the cursor reaches them (default: true) */
+  trackVisits?: boolean;
+}
+
+/**
+ * Progress layer returned by createProgress
+ */
+export interface Progress {
+  /** Visited slugs, in the order they were first visited */
+  readonly visited: string[];
+
+  /** Completed leaf slugs, in the order they were completed */
+  readonly completed: string[];
+
+  isVisited(slug: string): boolean;
+
+  /** True for a completed leaf, or a branch whose leaves are all complete */
+  isComplete(slug: string): boolean;
+
+  /** Completion below a slug, or of the whole tree when omitted */
+  completion(slug?: string | null): ProgressCount;
+
+  markVisited(slug: string): void;
+
+  /** Mark an item complete; for a branch, every leaf below it */
+  markComplete(slug: string): void;
+
+  /** Undo markComplete, for a branch every leaf below it */
+  markIncomplete(slug: string): void;
+
+  /**
+   * Move the navigator to the next visible item that isn't complete,
+   * skipping expanded branches (their leaves are visited instead).
+   * Follows the navigator's wrap option; stays put if everything is done.
+   */
+  nextIncomplete(): void;
+
+  /** Like nextIncomplete(), backwards */
+  prevIncomplete(): void;
+
+  serialize(): ProgressState;
+
+  /**
+   * Replace progress with a snapshot from serialize(). Malformed
+   * snapshots are ignored.
+   */
+  restore(state: ProgressState): void;
+
+  /** Forget all progress */
+  reset(): void;
+
+  /** Subscribe to an event; returns an unsubscribe function */
+  on<K extends keyof ProgressEvents>(
+    event: K,
+    listener: (payload: ProgressEvents[K]) => void
+  ): () => void;
+
+  /** Stop tracking visits */
+  dispose(): void;
+}
+
+/** Completion counts for every slug, and which slugs are leaves */
+interface CompletionIndex {
+  counts: Map<string, ProgressCount>;
+  leaves: Set<string>;
+  total: ProgressCount;
+}
+
+/**
+ * Track progress through a navigator's items. Progress is keyed by
+ * slug, so it survives tree edits and restructuring.
+ */
+export function createProgress<T>(
+  navigator: Navigator<T>,
+  options: ProgressOptions = {}
+): Progress {
+  const { storage, trackVisits = true } = options;
+  const saved = options.initialState ?? storage?.load() ?? null;
+  const initial = isProgressState(saved) ? saved : null;
+  const visited = new Set(initial?.visited);
+  const completed = new Set(initial?.completed);
+  const events = createEmitter<ProgressEvents>();
+
+  // Recomputed lazily after progress or the tree changes
+  let index: CompletionIndex | null = null;
+  const getIndex = () => {
+    if (!index) index = indexCompletion(navigator.root, completed);
+    return index;
+  };
+  const offUpdate = navigator.on('update', () => {
+    index = null;
+  });
+
+  const offChange = trackVisits
+    ? navigator.on('change', ({ next }) => {
+        if (next !== null) progress.markVisited(next);
+      })
+    : () => {};
+
+  function changed(type: ProgressChangeEvent['type'], slugs: string[]) {
+    index = null;
+    storage?.save(progress.serialize());
+    events.emit('change', { type, slugs });
+  }
+
+  function setComplete(slug: string, complete: boolean) {
+    const slugs = leavesBelow(navigator.root, slug).filter(
+      (leaf) => completed.has(leaf) !== complete
+    );
+    if (slugs.length === 0) return;
+
+    for (const leaf of slugs) {
+      if (complete) completed.add(leaf);
+      else completed.delete(leaf);
+    }
+    changed(complete ? 'complete' : 'incomplete', slugs);
+  }
+
+  function moveToIncomplete(direction: 'forward' | 'backward') {
+    const { leaves } = getIndex();
+    const idx = navigator.findNext(
+      (slug) =>
+        !progress.isComplete(slug) &&
+        (leaves.has(slug) || !navigator.isExpanded(slug)),
+      { direction }
+    );
+    if (idx !== -1) navigator.goTo(idx);
+  }
+
+  const progress: Progress = {
+    get visited() {
+      return [...visited];
+    },
+
+    get completed() {
+      return [...completed];
+    },
+
+    isVisited(slug: string) {
+      return visited.has(slug);
+    },
+
+    isComplete(slug: string) {
+      const count = getIndex().counts.get(slug);
+      return count
+        ? count.total > 0 && count.completed === count.total
+        : completed.has(slug);
+    },
+
+    completion(slug?: string | null) {
+      const { counts, total } = getIndex();
+      if (slug == null) return total;
+      return counts.get(slug) ?? toCount(0, 0);
+    },
+
+    markVisited(slug: string) {
+      if (visited.has(slug)) return;
+      visited.add(slug);
+      changed('visited', [slug]);
+    },
+
+    markComplete(slug: string) {
+      setComplete(slug, true);
+    },
+
+    markIncomplete(slug: string) {
+      setComplete(slug, false);
+    },
+
+    nextIncomplete() {
+      moveToIncomplete('forward');
+    },
+
+    prevIncomplete() {
+      moveToIncomplete('backward');
+    },
+
+    serialize() {
+      return { visited: [...visited], completed: [...completed] };
+    },
+
+    restore(state: ProgressState) {
+      if (!isProgressState(state)) return;
+      visited.clear();
+      completed.clear();
+      for (const slug of state.visited) visited.add(slug);
+      for (const slug of state.completed) completed.add(slug);
+      changed('reset', []);
+    },
+
+    reset() {
+      progress.restore({ visited: [], completed: [] });
+    },
+
+    on(event, listener) {
+      return events.on(event, listener);
+    },
+
+    dispose() {
+      offChange();
+      offUpdate();
+    },
+  };
+
+  if (trackVisits && navigator.current !== null) {
+    progress.markVisited(navigator.current);
+  }
+  return progress;
+}
+
+/**
+ * Completion below a slug (or of the whole tree) from a progress
+ * snapshot, e.g. to render progress bars at build time. Unknown slugs
+ * count as nothing to complete.
+ */
+export function getCompletion<T>(
+  items: NavItem<T>[],
+  state: ProgressState | null,
+  slug?: string | null
+): ProgressCount {
+  const completed = isProgressState(state) ? state.completed : [];
+  const { counts, total } = indexCompletion(items, new Set(completed));
+  if (slug == null) return total;
+  return counts.get(slug) ?? toCount(0, 0);
+}
+
+/**
+ * Check a snapshot's shape before loading it. It comes from storage as
+ * unchecked JSON, so corrupt ones are ignored rather than thrown on or
+ * misread (a string would otherwise iterate as single characters).
+ */
+function isProgressState(state: unknown): state is ProgressState {
+  return (
+    typeof state === 'object' &&
+    state !== null &&
+    isStringArray((state as Partial<ProgressState>).visited) &&
+    isStringArray((state as Partial<ProgressState>).completed)
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+  );
+}
+
+/**
+ * Count completed leaves below every node in one pass. Slug lookups
+ * resolve to the first match, like the navigator.
+ */
+function indexCompletion<T>(
+  items: NavItem<T>[],
+  completed: Set<string>
+): CompletionIndex {
+  const counts = new Map<string, ProgressCount>();
+  const leaves = new Set<string>();
+
+  const visit = (node: InternalNode<T>): [number, number] => {
+    let done = 0;
+    let total = 0;
+    if (node.children.length === 0) {
+      leaves.add(node.slug);
+      done = completed.has(node.slug) ? 1 : 0;
+      total = 1;
+    } else {
+      for (const child of node.children) {
+        const [childDone, childTotal] = visit(child);
+        done += childDone;
+        total += childTotal;
+      }
+    }
+    if (!counts.has(node.slug)) counts.set(node.slug, toCount(done, total));
+    return [done, total];
+  };
+
+  let done = 0;
+  let total = 0;
+  for (const root of buildTree(items)) {
+    const [rootDone, rootTotal] = visit(root);
+    done += rootDone;
+    total += rootTotal;
+  }
+  return { counts, leaves, total: toCount(done, total) };
+}
+
+/**
+ * Leaf slugs at or below the first node with a slug. Unknown slugs are
+ * returned as-is, so progress can be recorded before a branch loads.
+ */
+function leavesBelow<T>(items: NavItem<T>[], slug: string): string[] {
+  const find = (nodes: InternalNode<T>[]): InternalNode<T> | null => {
+    for (const node of nodes) {
+      if (node.slug === slug) return node;
+      const found = find(node.children);
+      if (found) return found;
+    }
+    return null;
+  };
+  const collect = (node: InternalNode<T>): string[] =>
+    node.children.length === 0 ? [node.slug] : node.children.flatMap(collect);
+
+  const node = find(buildTree(items));
+  return node ? collect(node) : [slug];
+}
+
+function toCount(completed: number, total: number): ProgressCount {
+  return { completed, total, fraction: total === 0 ? 0 : completed / total };
+}
@@ -0,0 +1,56 @@
+/**
+ * React bindings. Import from '@bearing-dev/compass/react'.
+ *
+ * @example
+ * ```tsx
+ * function Sidebar({ items }: { items: NavItem[] }) {
+ *   const { current, next, prev } = useNavigator({ items });
+ *   return <Tree items={items} active={current} onNext={next} onPrev={prev} />;
+ * }
+ * ```
+ */
+
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { createNavigator } from './navigator.js';
+import { bindMoves, getNavigatorStore } from './store.js';
+import type { NavigatorMoves, NavigatorSnapshot } from './store.js';
+import type { Navigator, NavigatorConfig } from './types.js';
+
+/**
+ * What the hooks return: the current snapshot, the bound move methods
+ * and the navigator itself for everything else
+ */
+export type NavigatorBinding<T = unknown> = NavigatorSnapshot<T> &
+  NavigatorMoves<T> & { navigator: Navigator<T> };
+
+/**
+ * Create a navigator for the lifetime of the component and re-render
+ * when its state changes. The config is read once, on first render;
+ * use navigator.setItems() and friends to change it afterwards.
+ */
+export function useNavigator<T>(
+  config: NavigatorConfig<T>
+): NavigatorBinding<T> {
+  const [navigator] = useState(() => createNavigator(config));
+  return useNavigatorState(navigator);
+}
+
+/**
+ * Subscribe to a navigator created elsewhere, e.g. shared via context
+ */
+export function useNavigatorState<T>(
+  navigator: Navigator<T>
+): NavigatorBinding<T> {
+  const store = getNavigatorStore(navigator);
+  const snapshot = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot
+  );
+  const moves = useMemo(() => bindMoves(navigator), [navigator]);
+
+  return useMemo(
+    () => ({ ...snapshot, ...moves, navigator }),
+    [snapshot, moves, navigator]
+  );
+}
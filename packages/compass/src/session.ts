@@ -0,0 +1,406 @@
+/**
+ * Undoable editing session over an item tree, for sidebar editors.
+ *
+ * Every edit is recorded as a plain operation. The log replays onto the
+ * original tree with replayEdits(), and a live navigator can be kept in
+ * sync with each edit.
+ *
+ * @example
+ * ```typescript
+ * const nav = createNavigator({ items });
+ * const session = createEditSession(items, { navigator: nav });
+ *
+ * session.move('install', 'guides', 0);
+ * session.rename('install', 'installation');
+ * session.undo();
+ *
+ * save(session.export(), session.log);
+ * ```
+ */
+
+import { createEmitter } from './events.js';
+import { getSlug, isBranch } from './helpers.js';
+import { flattenSlugs } from './utils.js';
+import type { Navigator, NavItem } from './types.js';
+
+/**
+ * One edit. Parents and targets are addressed by slug; a null parent
+ * means the root level. Indexes are positions in the parent's children.
+ */
+export type EditOperation<T = unknown> =
+  | { type: 'insert'; parent: string | null; index: number; item: NavItem<T> }
+  | { type: 'remove'; slug: string }
+  | { type: 'move'; slug: string; parent: string | null; index: number }
+  | { type: 'rename'; slug: string; to: string };
+
+/**
+ * Payload of the session's 'change' event
+ */
+export interface EditChangeEvent<T = unknown> {
+  /** The operation applied to the tree (the inverse one for an undo) */
+  operation: EditOperation<T>;
+
+  source: 'apply' | 'undo' | 'redo';
+}
+
+/**
+ * Event map for session.on()
+ */
+export interface EditSessionEvents<T = unknown> {
+  change: EditChangeEvent<T>;
+}
+
+/**
+ * Options for createEditSession
+ */
+export interface EditSessionOptions<T = unknown> {
+  /**
+   * Navigator to keep in sync. It must have been created from the same
+   * tree; each edit, undo and redo is repeated on it.
+   */
+  navigator?: Navigator<T>;
+}
+
+/**
+ * Editing session returned by createEditSession
+ */
+export interface EditSession<T = unknown> {
+  /**
+   * Applied operations in order, as normalized by the session (indexes
+   * clamped). Undo removes the last one; redo puts it back.
+   */
+  readonly log: EditOperation<T>[];
+
+  /** A copy of the tree the session started from */
+  readonly original: NavItem<T>[];
+
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+
+  /**
+   * Apply an operation. Returns false, changing nothing, when it doesn't
+   * fit the tree: an unknown slug or parent, a parent that is a leaf or
+   * an unloaded branch, a move into the item's own subtree, or an insert
+   * or rename that would duplicate a slug.
+   */
+  apply(operation: EditOperation<T>): boolean;
+
+  /** Insert an item under a branch (null for root level) at the given index */
+  insert(parent: string | null, index: number, item: NavItem<T>): boolean;
+
+  /** Remove an item and its descendants */
+  remove(slug: string): boolean;
+
+  /** Move an item under a new parent (null for root level) at the given index */
+  move(slug: string, parent: string | null, index: number): boolean;
+
+  /** Change an item's slug */
+  rename(slug: string, to: string): boolean;
+
+  /** Revert the last applied operation. Returns false if there is none. */
+  undo(): boolean;
+
+  /** Re-apply the last undone operation. Returns false if there is none. */
+  redo(): boolean;
+
+  /** A copy of the current tree as plain items */
+  export(): NavItem<T>[];
+
+  /** Subscribe to an event; returns an unsubscribe function */
+  on<K extends keyof EditSessionEvents<T>>(
+    event: K,
+    listener: (payload: EditSessionEvents<T>[K]) => void
+  ): () => void;
+}
+
+/** An applied operation and the one that reverts it */
+interface Entry<T> {
+  operation: EditOperation<T>;
+  inverse: EditOperation<T>;
+}
+
+/**
+ * Start an editing session. The session edits its own copy of items;
+ * the input array is left as it is. Item data is shared, not copied.
+ */
+export function createEditSession<T = unknown>(
+  items: NavItem<T>[],
+  options: EditSessionOptions<T> = {}
+): EditSession<T> {
+  const { navigator } = options;
+  const original = cloneItems(items);
+  const tree = cloneItems(items);
+  const done: Entry<T>[] = [];
+  const undone: Entry<T>[] = [];
+  const events = createEmitter<EditSessionEvents<T>>();
+
+  function commit(
+    operation: EditOperation<T>,
+    source: EditChangeEvent<T>['source']
+  ): Entry<T> | null {
+    const entry = applyOperation(tree, operation);
+    if (!entry) return null;
+
+    if (navigator) syncNavigator(navigator, entry.operation);
+    events.emit('change', { operation: entry.operation, source });
+    return entry;
+  }
+
+  const session: EditSession<T> = {
+    get log() {
+      return done.map((entry) => entry.operation);
+    },
+
+    get original() {
+      return cloneItems(original);
+    },
+
+    get canUndo() {
+      return done.length > 0;
+    },
+
+    get canRedo() {
+      return undone.length > 0;
+    },
+
+    apply(operation: EditOperation<T>) {
+      const entry = commit(operation, 'apply');
+      if (!entry) return false;
+
+      done.push(entry);
+      undone.length = 0;
+      return true;
+    },
+
+    insert(parent: string | null, index: number, item: NavItem<T>) {
+      return session.apply({ type: 'insert', parent, index, item });
+    },
+
+    remove(slug: string) {
+      return session.apply({ type: 'remove', slug });
+    },
+
+    move(slug: string, parent: string | null, index: number) {
+      return session.apply({ type: 'move', slug, parent, index });
+    },
+
+    rename(slug: string, to: string) {
+      return session.apply({ type: 'rename', slug, to });
+    },
+
+    undo() {
+      const entry = done.pop();
+      if (!entry) return false;
+
+      commit(entry.inverse, 'undo');
+      undone.push(entry);
+      return true;
+    },
+
+    redo() {
+      const entry = undone.pop();
+      if (!entry) return false;
+
+      commit(entry.operation, 'redo');
+      done.push(entry);
+      return true;
+    },
+
+    export() {
+      return cloneItems(tree);
+    },
+
+    on(event, listener) {
+      return events.on(event, listener);
+    },
+  };
+
+  return session;
+}
+
+/**
+ * Apply a log of operations to a copy of items, e.g. to rebuild a saved
+ * tree from the original and session.log.
+ *
+ * @throws Error if an operation doesn't fit the tree at that point
+ */
+export function replayEdits<T>(
+  items: NavItem<T>[],
+  log: EditOperation<T>[]
+): NavItem<T>[] {
+  const tree = cloneItems(items);
+  log.forEach((operation, i) => {
+    if (!applyOperation(tree, operation)) {
+      throw new Error(`Cannot replay operation ${i} (${describe(operation)})`);
+    }
+  });
+  return tree;
+}
+
+/**
+ * Apply one operation to a tree in place. Returns the operation as
+ * applied and its inverse, or null if it doesn't fit the tree.
+ */
+function applyOperation<T>(
+  tree: NavItem<T>[],
+  operation: EditOperation<T>
+): Entry<T> | null {
+  switch (operation.type) {
+    case 'insert': {
+      const { parent, item } = operation;
+      const list = childListOf(tree, parent);
+      if (!list || flattenSlugs([item]).some((s) => locate(tree, s))) {
+        return null;
+      }
+
+      const index = clamp(operation.index, list.length);
+      list.splice(index, 0, cloneItem(item));
+      return {
+        operation: { type: 'insert', parent, index, item: cloneItem(item) },
+        inverse: { type: 'remove', slug: getSlug(item) },
+      };
+    }
+
+    case 'remove': {
+      const { slug } = operation;
+      const at = locate(tree, slug);
+      if (!at) return null;
+
+      const [item] = at.list.splice(at.index, 1);
+      return {
+        operation: { type: 'remove', slug },
+        inverse: { type: 'insert', parent: at.parent, index: at.index, item },
+      };
+    }
+
+    case 'move': {
+      const { slug, parent } = operation;
+      const at = locate(tree, slug);
+      const list = childListOf(tree, parent);
+      if (!at || !list) return null;
+
+      // Refuse to move an item into its own subtree
+      const item = at.list[at.index];
+      if (parent !== null && inSubtree(item, parent)) return null;
+
+      at.list.splice(at.index, 1);
+      const index = clamp(operation.index, list.length);
+      list.splice(index, 0, item);
+      return {
+        operation: { type: 'move', slug, parent, index },
+        inverse: { type: 'move', slug, parent: at.parent, index: at.index },
+      };
+    }
+
+    case 'rename': {
+      const { slug, to } = operation;
+      const at = locate(tree, slug);
+      if (!at || to === '' || locate(tree, to)) return null;
+
+      const item = at.list[at.index];
+      if (typeof item === 'string') at.list[at.index] = to;
+      else item.slug = to;
+      return {
+        operation: { type: 'rename', slug, to },
+        inverse: { type: 'rename', slug: to, to: slug },
+      };
+    }
+  }
+}
+
+function syncNavigator<T>(
+  navigator: Navigator<T>,
+  operation: EditOperation<T>
+): void {
+  switch (operation.type) {
+    case 'insert':
+      // The navigator edits its tree in place, so it gets its own copy
+      navigator.insert(
+        operation.parent,
+        operation.index,
+        cloneItem(operation.item)
+      );
+      break;
+    case 'remove':
+      navigator.remove(operation.slug);
+      break;
+    case 'move':
+      navigator.move(operation.slug, operation.parent, operation.index);
+      break;
+    case 'rename':
+      navigator.rename(operation.slug, operation.to);
+      break;
+  }
+}
+
+/** Where an item sits: its list, position and parent slug */
+interface Location<T> {
+  list: NavItem<T>[];
+  index: number;
+  parent: string | null;
+}
+
+/**
+ * Find the first item with a slug, in pre-order (like the navigator)
+ */
+function locate<T>(
+  list: NavItem<T>[],
+  slug: string,
+  parent: string | null = null
+): Location<T> | null {
+  for (let index = 0; index < list.length; index++) {
+    const item = list[index];
+    if (getSlug(item) === slug) return { list, index, parent };
+    if (isBranch(item) && Array.isArray(item.children)) {
+      const found = locate(item.children, slug, item.slug);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Children of a parent slug (the tree itself for null). Null for leaves,
+ * unloaded branches and unknown slugs.
+ */
+function childListOf<T>(
+  tree: NavItem<T>[],
+  parent: string | null
+): NavItem<T>[] | null {
+  if (parent === null) return tree;
+
+  const at = locate(tree, parent);
+  const item = at ? at.list[at.index] : null;
+  return item && isBranch(item) && Array.isArray(item.children)
+    ? item.children
+    : null;
+}
+
+function inSubtree<T>(item: NavItem<T>, slug: string): boolean {
+  return flattenSlugs([item]).includes(slug);
+}
+
+/**
+ * Copy the tree structure. Loaders and data are kept by reference.
+ */
+function cloneItems<T>(list: NavItem<T>[]): NavItem<T>[] {
+  return list.map(cloneItem);
+}
+
+function cloneItem<T>(item: NavItem<T>): NavItem<T> {
+  if (typeof item === 'string') return item;
+  if (isBranch(item) && Array.isArray(item.children)) {
+    return { ...item, children: cloneItems(item.children) };
+  }
+  return { ...item };
+}
+
+function clamp(index: number, length: number): number {
+  return Math.max(0, Math.min(index, length));
+}
+
+function describe<T>(operation: EditOperation<T>): string {
+  return operation.type === 'insert'
+    ? `insert "${getSlug(operation.item)}"`
+    : `${operation.type} "${operation.slug}"`;
+}
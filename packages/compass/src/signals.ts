@@ -0,0 +1,68 @@
+/**
+ * Signal bindings for @preact/signals-core. Import from
+ * '@bearing-dev/compass/signals'.
+ *
+ * @example
+ * ```typescript
+ * const nav = navigatorSignals(createNavigator({ items }));
+ * effect(() => console.log(nav.current.value));
+ * nav.next();
+ * ```
+ */
+
+import { computed, signal } from '@preact/signals-core';
+import type { ReadonlySignal } from '@preact/signals-core';
+import { bindMoves, getNavigatorStore } from './store.js';
+import type { NavigatorMoves, NavigatorSnapshot } from './store.js';
+import type { Navigator } from './types.js';
+
+/**
+ * One read-only signal per snapshot field, plus the bound move methods
+ */
+export type NavigatorSignals<T = unknown> = NavigatorMoves<T> & {
+  readonly [K in keyof NavigatorSnapshot<T>]: ReadonlySignal<
+    NavigatorSnapshot<T>[K]
+  >;
+} & {
+  /** The whole snapshot, for effects that read several fields */
+  state: ReadonlySignal<NavigatorSnapshot<T>>;
+
+  navigator: Navigator<T>;
+
+  /** Stop tracking the navigator */
+  dispose(): void;
+};
+
+/**
+ * Expose a navigator's state as signals. Field signals only notify
+ * when their own value changes.
+ */
+export function navigatorSignals<T>(
+  navigator: Navigator<T>
+): NavigatorSignals<T> {
+  const store = getNavigatorStore(navigator);
+  const state = signal(store.getSnapshot());
+  const dispose = store.subscribe(() => {
+    state.value = store.getSnapshot();
+  });
+
+  const field = <K extends keyof NavigatorSnapshot<T>>(key: K) =>
+    computed(() => state.value[key]);
+
+  return {
+    ...bindMoves(navigator),
+    current: field('current'),
+    currentPath: field('currentPath'),
+    currentData: field('currentData'),
+    currentIndex: field('currentIndex'),
+    count: field('count'),
+    loading: field('loading'),
+    canGoBack: field('canGoBack'),
+    canGoForward: field('canGoForward'),
+    expanded: field('expanded'),
+    selection: field('selection'),
+    state: computed(() => state.value),
+    navigator,
+    dispose,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Storage adapters for persisting navigator state across page loads.
+ * Pair with navigator.serialize() and the initialState config option,
+ * or with createProgress().
+ *
+ * @example
+ * ```typescript
+ * const storage = createSessionStorageAdapter('docs-nav');
+ * const nav = createNavigator({ items, initialState: storage.load() });
+ * window.addEventListener('pagehide', () => storage.save(nav.serialize()));
+ * ```
+ */
+
+import type { NavigatorState } from './types.js';
+
+/**
+ * Minimal load/save interface for persisted state
+ */
+export interface StorageAdapter<S> {
+  /** Load saved state, or null if there is none or it can't be read */
+  load(): S | null;
+
+  /** Save state (failures such as quota errors are ignored) */
+  save(state: S): void;
+
+  /** Remove saved state */
+  clear(): void;
+}
+
+/**
+ * Create an adapter that stores JSON in sessionStorage under `key`.
+ * Falls back to a no-op when sessionStorage is unavailable (SSR).
+ *
+ * @param key - Storage key
+ * @param storage - Storage to use instead of window.sessionStorage
+ */
+export function createSessionStorageAdapter<S = NavigatorState>(
+  key: string,
+  storage: Storage | undefined = getStorage('sessionStorage')
+): StorageAdapter<S> {
+  return createWebStorageAdapter(key, storage);
+}
+
+/**
+ * Create an adapter that stores JSON in localStorage under `key`, so it
+ * outlives the tab (e.g. progress through a course).
+ * Falls back to a no-op when localStorage is unavailable (SSR).
+ *
+ * @param key - Storage key
+ * @param storage - Storage to use instead of window.localStorage
+ */
+export function createLocalStorageAdapter<S = NavigatorState>(
+  key: string,
+  storage: Storage | undefined = getStorage('localStorage')
+): StorageAdapter<S> {
+  return createWebStorageAdapter(key, storage);
+}
+
+/**
+ * Create an adapter that keeps state in memory, e.g. for tests and
+ * server rendering. Saved state is copied, like a JSON round trip.
+ *
+ * @param initial - State for the first load()
+ */
+export function createMemoryStorageAdapter<S = NavigatorState>(
+  initial: S | null = null
+): StorageAdapter<S> {
+  let saved = initial === null ? null : JSON.stringify(initial);
+
+  return {
+    load() {
+      return saved === null ? null : (JSON.parse(saved) as S);
+    },
+
+    save(state: S) {
+      saved = JSON.stringify(state);
+    },
+
+    clear() {
+      saved = null;
+    },
+  };
+}
+
+function createWebStorageAdapter<S>(
+  key: string,
+  storage: Storage | undefined
+): StorageAdapter<S> {
+  return {
+    load() {
+      if (!storage) return null;
+      try {
+        const raw = storage.getItem(key);
+        return raw === null ? null : (JSON.parse(raw) as S);
+      } catch {
+        return null;
+      }
+    },
+
+    save(state: S) {
+      try {
+        storage?.setItem(key, JSON.stringify(state));
+      } catch {
+        // Quota exceeded or storage disabled - persistence is best-effort
+      }
+    },
+
+    clear() {
+      storage?.removeItem(key);
+    },
+  };
+}
+
+function getStorage(
+  name: 'sessionStorage' | 'localStorage'
+): Storage | undefined {
+  try {
+    return typeof globalThis[name] === 'undefined'
+      ? undefined
+      : globalThis[name];
+  } catch {
+    // Accessing web storage throws when storage is blocked
+    return undefined;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Framework-neutral store over a navigator: an immutable snapshot plus
+ * subscribe(). The framework adapters (react, svelte, vue, signals)
+ * are thin layers on top of this.
+ *
+ * @example
+ * ```typescript
+ * const store = getNavigatorStore(nav);
+ * const off = store.subscribe(() => render(store.getSnapshot()));
+ * ```
+ */
+
+import type { Navigator } from './types.js';
+
+/**
+ * Immutable copy of a navigator's observable state. A new object is
+ * created only when a field changes, so it can be compared by reference.
+ */
+export interface NavigatorSnapshot<T = unknown> {
+  readonly current: string | null;
+  readonly currentPath: string | null;
+  readonly currentData: T | undefined;
+  readonly currentIndex: number;
+  readonly count: number;
+  readonly loading: boolean;
+  readonly canGoBack: boolean;
+  readonly canGoForward: boolean;
+  readonly expanded: readonly string[];
+  readonly selection: readonly string[];
+}
+
+/**
+ * Subscribe/getSnapshot pair, the shape useSyncExternalStore expects
+ */
+export interface NavigatorStore<T = unknown> {
+  /** Listen for snapshot changes; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void;
+
+  /** Current snapshot (same object until something changes) */
+  getSnapshot(): NavigatorSnapshot<T>;
+}
+
+/**
+ * The navigator methods adapters expose next to the snapshot
+ */
+export type NavigatorMoves<T = unknown> = Pick<
+  Navigator<T>,
+  (typeof MOVE_METHODS)[number]
+>;
+
+const MOVE_METHODS = [
+  'next',
+  'prev',
+  'nextSibling',
+  'prevSibling',
+  'parent',
+  'firstChild',
+  'lastChild',
+  'nthChild',
+  'firstSibling',
+  'lastSibling',
+  'nextAtDepth',
+  'prevAtDepth',
+  'nextAtSameDepth',
+  'prevAtSameDepth',
+  'goTo',
+  'goToSlug',
+  'goToPath',
+  'jumpToMark',
+  'reset',
+  'back',
+  'forward',
+] as const;
+
+// One store per navigator, so every component shares a subscription
+const stores = new WeakMap<Navigator<never>, NavigatorStore<never>>();
+
+/**
+ * Get the store for a navigator, creating it on first use
+ */
+export function getNavigatorStore<T>(
+  navigator: Navigator<T>
+): NavigatorStore<T> {
+  const key = navigator as Navigator<never>;
+  let store = stores.get(key) as NavigatorStore<T> | undefined;
+  if (!store) {
+    store = createNavigatorStore(navigator);
+    stores.set(key, store as NavigatorStore<never>);
+  }
+  return store;
+}
+
+function createNavigatorStore<T>(navigator: Navigator<T>): NavigatorStore<T> {
+  const listeners = new Set<() => void>();
+  let snapshot = takeSnapshot(navigator);
+
+  // Subscribed for the navigator's lifetime; listeners are fanned out here
+  navigator.on('update', () => {
+    const next = takeSnapshot(navigator);
+    if (sameSnapshot(snapshot, next)) return;
+
+    // Keep unchanged lists by reference, so per-field consumers can skip them
+    snapshot = {
+      ...next,
+      expanded: sameList(snapshot.expanded, next.expanded)
+        ? snapshot.expanded
+        : next.expanded,
+      selection: sameList(snapshot.selection, next.selection)
+        ? snapshot.selection
+        : next.selection,
+    };
+    for (const listener of [...listeners]) listener();
+  });
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getSnapshot() {
+      return snapshot;
+    },
+  };
+}
+
+/**
+ * Bind the move methods of a navigator, safe to pass as callbacks
+ */
+export function bindMoves<T>(navigator: Navigator<T>): NavigatorMoves<T> {
+  const moves = {} as Record<string, unknown>;
+  for (const name of MOVE_METHODS) {
+    moves[name] = navigator[name].bind(navigator);
+  }
+  return moves as NavigatorMoves<T>;
+}
+
+function takeSnapshot<T>(navigator: Navigator<T>): NavigatorSnapshot<T> {
+  return {
+    current: navigator.current,
+    currentPath: navigator.currentPath,
+    currentData: navigator.currentData,
+    currentIndex: navigator.currentIndex,
+    count: navigator.count,
+    loading: navigator.loading,
+    canGoBack: navigator.canGoBack,
+    canGoForward: navigator.canGoForward,
+    expanded: navigator.expanded,
+    selection: navigator.selection,
+  };
+}
+
+function sameSnapshot<T>(
+  a: NavigatorSnapshot<T>,
+  b: NavigatorSnapshot<T>
+): boolean {
+  return (Object.keys(a) as (keyof NavigatorSnapshot<T>)[]).every((key) => {
+    const x = a[key];
+    const y = b[key];
+    if (Array.isArray(x) && Array.isArray(y)) return sameList(x, y);
+    return Object.is(x, y);
+  });
+}
+
+function sameList(a: readonly string[], b: readonly string[]): boolean {
+  if (a === b) return true;
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
@@ -0,0 +1,49 @@
+/**
+ * Svelte bindings. Import from '@bearing-dev/compass/svelte'.
+ *
+ * The store follows the Svelte store contract, so it works with `$`
+ * auto-subscription without depending on svelte itself.
+ *
+ * @example
+ * ```svelte
+ * <script>
+ *   const nav = navigatorStore(createNavigator({ items }));
+ * </script>
+ *
+ * <p>{$nav.current}</p>
+ * <button on:click={nav.next}>Next</button>
+ * ```
+ */
+
+import { bindMoves, getNavigatorStore } from './store.js';
+import type { NavigatorMoves, NavigatorSnapshot } from './store.js';
+import type { Navigator } from './types.js';
+
+/**
+ * Readable store of navigator snapshots, plus the bound move methods
+ */
+export type NavigatorReadable<T = unknown> = NavigatorMoves<T> & {
+  /** Svelte store contract: called immediately, then on every change */
+  subscribe(run: (value: NavigatorSnapshot<T>) => void): () => void;
+
+  navigator: Navigator<T>;
+};
+
+/**
+ * Wrap a navigator in a Svelte readable store
+ */
+export function navigatorStore<T>(
+  navigator: Navigator<T>
+): NavigatorReadable<T> {
+  const store = getNavigatorStore(navigator);
+
+  return {
+    ...bindMoves(navigator),
+    navigator,
+
+    subscribe(run) {
+      run(store.getSnapshot());
+      return store.subscribe(() => run(store.getSnapshot()));
+    },
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Tests for the terminal tree browser.
+ * Drives browseTree with fake input and output streams.
+ */
+
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, vi } from 'vitest';
+import { createNavigator } from './index.js';
+import { browseTree, renderTree } from './tui.js';
+import type { NavItem } from './index.js';
+
+const items: NavItem[] = [
+  'intro',
+  { slug: 'guides', children: ['install', 'config'] },
+  'faq',
+];
+
+function fakeInput(isTTY = true) {
+  const input = Object.assign(new EventEmitter(), {
+    isTTY,
+    setRawMode: vi.fn(),
+    resume: vi.fn(),
+    pause: vi.fn(),
+  });
+  const press = (...keys: string[]) => {
+    for (const key of keys) input.emit('data', Buffer.from(key));
+  };
+  return { input, press };
+}
+
+function fakeOutput() {
+  const writes: string[] = [];
+  return {
+    writes,
+    output: { write: (text: string) => writes.push(text), rows: 10 },
+  };
+}
+
+describe('renderTree', () => {
+  it('indents children and marks the current item', () => {
+    const nav = createNavigator({ items });
+    nav.goToSlug('install');
+
+    expect(renderTree(nav)).toEqual([
+      '    intro',
+      '  ▾ guides',
+      '>     install',
+      '      config',
+      '    faq',
+    ]);
+  });
+
+  it('hides children of collapsed branches', () => {
+    const nav = createNavigator({ items });
+    nav.collapse('guides');
+
+    expect(renderTree(nav)).toEqual(['>   intro', '  ▸ guides', '    faq']);
+  });
+
+  it('uses labels and highlights with inverse video', () => {
+    const nav = createNavigator({
+      items: [{ slug: 'intro', data: { title: 'Introduction' } }],
+    });
+    const lines = renderTree(nav, {
+      label: (_slug, data) => (data as { title: string }).title,
+      color: true,
+    });
+
+    expect(lines).toEqual(['\x1b[7m>   Introduction\x1b[27m']);
+  });
+
+  it('scrolls to keep the current item in view', () => {
+    const nav = createNavigator({ items });
+    nav.goToSlug('faq');
+
+    expect(renderTree(nav, { height: 2 })).toEqual(['      config', '>   faq']);
+    expect(renderTree(nav, { width: 5 })[4]).toBe('>   f');
+  });
+});
+
+describe('browseTree', () => {
+  it('resolves to the slug picked with Enter', async () => {
+    const nav = createNavigator({ items });
+    const { input, press } = fakeInput();
+    const { output } = fakeOutput();
+
+    const result = browseTree(nav, { input, output });
+    press('j', 'j', '\r');
+
+    await expect(result).resolves.toBe('install');
+    expect(input.setRawMode).toHaveBeenNthCalledWith(1, true);
+    expect(input.setRawMode).toHaveBeenLastCalledWith(false);
+    expect(input.listenerCount('data')).toBe(0);
+  });
+
+  it('resolves to null on q, Esc and Ctrl+C', async () => {
+    for (const key of ['q', '\x1b', '\x03']) {
+      const { input, press } = fakeInput();
+      const result = browseTree(createNavigator({ items }), {
+        input,
+        output: fakeOutput().output,
+      });
+      press(key);
+      await expect(result).resolves.toBeNull();
+    }
+  });
+
+  it('collapses and expands with h/l and arrow keys', async () => {
+    const nav = createNavigator({ items });
+    const { input, press } = fakeInput();
+    const result = browseTree(nav, { input, output: fakeOutput().output });
+
+    press('\x1b[B', 'h');
+    expect(nav.isExpanded('guides')).toBe(false);
+
+    press('l');
+    expect(nav.isExpanded('guides')).toBe(true);
+
+    press('\x1b[C');
+    expect(nav.current).toBe('install');
+
+    press('\x1b[D');
+    expect(nav.current).toBe('guides');
+
+    press(' ');
+    expect(nav.isExpanded('guides')).toBe(false);
+
+    press('q');
+    await result;
+  });
+
+  it('handles several keys in one chunk', async () => {
+    const { input } = fakeInput();
+    const result = browseTree(createNavigator({ items }), {
+      input,
+      output: fakeOutput().output,
+    });
+    input.emit('data', 'jjj\r');
+
+    await expect(result).resolves.toBe('config');
+  });
+
+  it('redraws after each move and restores the screen', async () => {
+    const nav = createNavigator({ items });
+    const { input, press } = fakeInput();
+    const { output, writes } = fakeOutput();
+    const result = browseTree(nav, { input, output });
+
+    expect(writes[0]).toBe('\x1b[?1049h\x1b[?25l');
+    expect(writes[1]).toContain('>   intro');
+
+    press('j');
+    expect(writes[2]).toContain('> ▾ guides');
+
+    press('q');
+    await result;
+    expect(writes.at(-1)).toBe('\x1b[?25h\x1b[?1049l');
+
+    // No redraws once finished
+    nav.next();
+    expect(writes.at(-1)).toBe('\x1b[?25h\x1b[?1049l');
+  });
+
+  it('skips raw mode when input is not a TTY', async () => {
+    const { input, press } = fakeInput(false);
+    const result = browseTree(createNavigator({ items }), {
+      input,
+      output: fakeOutput().output,
+    });
+    press('\r');
+
+    await expect(result).resolves.toBe('intro');
+    expect(input.setRawMode).not.toHaveBeenCalled();
+  });
+});
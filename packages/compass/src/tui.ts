@@ -0,0 +1,282 @@
+/**
+ * Node-only terminal UI: render a navigator as an indented, collapsible
+ * tree and let the user pick an item with the keyboard. Import from
+ * '@bearing-dev/compass/tui'.
+ *
+ * @example
+ * ```typescript
+ * import { browseTree } from '@bearing-dev/compass/tui';
+ *
+ * const slug = await browseTree(createNavigator({ items }), {
+ *   label: (slug, data) => data?.title ?? slug,
+ * });
+ * if (slug) open(slug);
+ * ```
+ */
+
+import { buildTree } from './buildFlatList.js';
+import { getData, isBranch } from './helpers.js';
+import type { InternalNode, Navigator, NavLabel } from './types.js';
+
+/**
+ * The parts of a readable TTY stream browseTree uses (process.stdin)
+ */
+export interface TuiInput {
+  on(event: 'data', listener: (chunk: string | Uint8Array) => void): unknown;
+  off(event: 'data', listener: (chunk: string | Uint8Array) => void): unknown;
+  setRawMode?(mode: boolean): unknown;
+  resume?(): unknown;
+  pause?(): unknown;
+  isTTY?: boolean;
+}
+
+/**
+ * The parts of a writable TTY stream browseTree uses (process.stdout)
+ */
+export interface TuiOutput {
+  write(text: string): unknown;
+  rows?: number;
+  columns?: number;
+  isTTY?: boolean;
+}
+
+/**
+ * Options for renderTree
+ */
+export interface RenderTreeOptions<T = unknown> {
+  /** Text shown for each item (default: the slug) */
+  label?: NavLabel<T>;
+
+  /** Highlight the current item in inverse video (default: false) */
+  color?: boolean;
+
+  /** Maximum number of lines; scrolls to keep the current item in view */
+  height?: number;
+
+  /** Cut lines to this many characters */
+  width?: number;
+}
+
+/**
+ * Options for browseTree
+ */
+export interface BrowseTreeOptions<T = unknown> {
+  /** Key source (default: process.stdin) */
+  input?: TuiInput;
+
+  /** Where to draw (default: process.stdout) */
+  output?: TuiOutput;
+
+  /** Text shown for each item (default: the slug) */
+  label?: NavLabel<T>;
+
+  /** Highlight with ANSI colors (default: whether output is a TTY) */
+  color?: boolean;
+}
+
+/** Bottom line shown while browsing */
+const HINT =
+  'j/k move  h/l collapse/expand  space toggle  enter select  q quit';
+
+const ESC = '\x1b';
+const INVERSE = `${ESC}[7m`;
+const RESET = `${ESC}[27m`;
+
+/** Keys arrive as raw bytes; arrows are escape sequences */
+const KEY_NAMES: Record<string, string> = {
+  [`${ESC}[A`]: 'up',
+  [`${ESC}[B`]: 'down',
+  [`${ESC}[C`]: 'right',
+  [`${ESC}[D`]: 'left',
+  '\r': 'enter',
+  '\n': 'enter',
+  ' ': 'space',
+  [ESC]: 'escape',
+  '\x03': 'ctrl-c',
+};
+
+/**
+ * Render the tree as lines: two spaces of indent per level, ▾/▸ for
+ * expanded and collapsed branches, and `>` on the current item.
+ * Collapsed branches hide their children; everything else is shown,
+ * including items the navigator skips (filtered, leavesOnly).
+ */
+export function renderTree<T>(
+  navigator: Navigator<T>,
+  options: RenderTreeOptions<T> = {}
+): string[] {
+  const {
+    label = (slug: string) => slug,
+    color = false,
+    height,
+    width,
+  } = options;
+  const currentPath = navigator.currentPath;
+  const lines: string[] = [];
+  let currentLine = -1;
+
+  const visit = (nodes: InternalNode<T>[]) => {
+    for (const { item, slug, path, depth, children } of nodes) {
+      const open =
+        isBranch(item) &&
+        Array.isArray(item.children) &&
+        navigator.isExpanded(path);
+      const marker = !isBranch(item) ? ' ' : open ? '▾' : '▸';
+      const isCurrent = path === currentPath;
+      const text = label(slug, getData(item), item);
+
+      let line = `${isCurrent ? '>' : ' '} ${'  '.repeat(depth)}${marker} ${text}`;
+      if (width !== undefined) line = line.slice(0, width);
+      if (isCurrent) {
+        currentLine = lines.length;
+        if (color) line = `${INVERSE}${line}${RESET}`;
+      }
+      lines.push(line);
+
+      if (open) visit(children);
+    }
+  };
+  visit(buildTree(navigator.root));
+
+  if (height === undefined || lines.length <= height) return lines;
+
+  // Scroll so the current line sits in the middle where possible
+  const start = Math.max(
+    0,
+    Math.min(currentLine - Math.floor(height / 2), lines.length - height)
+  );
+  return lines.slice(start, start + height);
+}
+
+/**
+ * Let the user browse the tree in the terminal:
+ *
+ * - j/k or ↓/↑ move to the next/previous item
+ * - h or ← collapses the current branch, or moves to the parent
+ * - l or → expands the current branch, or moves to the first child
+ * - space toggles the current branch
+ * - Enter picks the current item; q, Esc or Ctrl+C cancels
+ *
+ * Draws on the alternate screen and restores the terminal afterwards.
+ * Resolves to the picked slug, or null when cancelled.
+ */
+export function browseTree<T>(
+  navigator: Navigator<T>,
+  options: BrowseTreeOptions<T> = {}
+): Promise<string | null> {
+  const {
+    input = process.stdin,
+    output = process.stdout,
+    label,
+    color = output.isTTY === true,
+  } = options;
+  const raw = input.isTTY === true && typeof input.setRawMode === 'function';
+
+  return new Promise((resolve) => {
+    const draw = () => {
+      const height = output.rows ? output.rows - 1 : undefined;
+      const lines = renderTree(navigator, {
+        label,
+        color,
+        height,
+        width: output.columns,
+      });
+      output.write(`${ESC}[H${ESC}[J${lines.join('\n')}\n${HINT}`);
+    };
+
+    const finish = (slug: string | null) => {
+      input.off('data', onData);
+      offUpdate();
+      if (raw) input.setRawMode?.(false);
+      input.pause?.();
+      output.write(`${ESC}[?25h${ESC}[?1049l`);
+      resolve(slug);
+    };
+
+    const onData = (chunk: string | Uint8Array) => {
+      const text =
+        typeof chunk === 'string' ? chunk : new TextDecoder().decode(chunk);
+      for (const key of parseKeys(text)) {
+        const result = handleKey(navigator, key);
+        if (result !== undefined) {
+          finish(result);
+          return;
+        }
+      }
+    };
+
+    // Redraw after every move, expansion or tree change
+    const offUpdate = navigator.on('update', draw);
+
+    output.write(`${ESC}[?1049h${ESC}[?25l`);
+    if (raw) input.setRawMode?.(true);
+    input.on('data', onData);
+    input.resume?.();
+    draw();
+  });
+}
+
+/**
+ * Apply one key. Returns the result to finish with (a slug, or null to
+ * cancel), or undefined to keep browsing.
+ */
+function handleKey<T>(
+  navigator: Navigator<T>,
+  key: string
+): string | null | undefined {
+  const item = navigator.currentItem;
+  // Path of the current item when it is a branch
+  const branch = item !== null && isBranch(item) ? navigator.currentPath : null;
+
+  switch (key) {
+    case 'j':
+    case 'down':
+      navigator.next();
+      break;
+    case 'k':
+    case 'up':
+      navigator.prev();
+      break;
+    case 'h':
+    case 'left':
+      if (branch !== null && navigator.isExpanded(branch)) {
+        navigator.collapse(branch);
+      } else {
+        navigator.parent();
+      }
+      break;
+    case 'l':
+    case 'right':
+      if (branch !== null && !navigator.isExpanded(branch)) {
+        navigator.expand(branch);
+      } else {
+        navigator.firstChild();
+      }
+      break;
+    case 'space':
+      if (branch !== null) navigator.toggle(branch);
+      break;
+    case 'enter':
+      return navigator.current;
+    case 'q':
+    case 'escape':
+    case 'ctrl-c':
+      return null;
+  }
+  return undefined;
+}
+
+/**
+ * Split raw input into key names. Several keys can arrive in one chunk,
+ * e.g. when a key is held down.
+ */
+function parseKeys(text: string): string[] {
+  const keys: string[] = [];
+  let rest = text;
+  while (rest.length > 0) {
+    const sequence = rest.startsWith(`${ESC}[`) ? rest.slice(0, 3) : rest[0];
+    keys.push(KEY_NAMES[sequence] ?? sequence);
+    rest = rest.slice(sequence.length);
+  }
+  return keys;
+}
@@ -0,0 +1,103 @@
+/**
+ * Typeahead for navigators - jump to the next item whose label starts
+ * with the characters typed, like native tree and list widgets.
+ *
+ * @example
+ * ```typescript
+ * const typeahead = createTypeahead(nav, {
+ *   label: (slug, data) => data?.title ?? slug,
+ * });
+ * document.addEventListener('keydown', (event) => {
+ *   if (typeahead.type(event.key)) event.preventDefault();
+ * });
+ * ```
+ */
+
+import type { Navigator, NavLabel } from './types.js';
+
+/** Default window for collecting keystrokes into one search, in ms */
+const DEFAULT_TYPEAHEAD_TIMEOUT = 500;
+
+/**
+ * Options for createTypeahead
+ */
+export interface TypeaheadOptions<T = unknown> {
+  /** Keystrokes closer together than this extend the search (default: 500ms) */
+  timeout?: number;
+
+  /** Text to match against (default: the slug) */
+  label?: NavLabel<T>;
+}
+
+/**
+ * Buffered typeahead bound to a navigator
+ */
+export interface Typeahead {
+  /** Characters collected in the current window ('' once it has passed) */
+  readonly buffer: string;
+
+  /**
+   * Handle a key (e.g. KeyboardEvent.key). Printable characters are
+   * added to the buffer and move the cursor to the next match.
+   * Returns true if the key was consumed.
+   */
+  type(key: string): boolean;
+
+  /** Clear the buffer */
+  reset(): void;
+}
+
+/**
+ * Create a typeahead that moves a navigator's cursor as the user types.
+ *
+ * Typing more characters narrows the match and keeps the current item
+ * if it still matches. Repeating one character cycles through the items
+ * starting with it. The cursor moves with goTo(), so onChange fires.
+ */
+export function createTypeahead<T = unknown>(
+  navigator: Navigator<T>,
+  options: TypeaheadOptions<T> = {}
+): Typeahead {
+  const { timeout = DEFAULT_TYPEAHEAD_TIMEOUT, label } = options;
+
+  let buffer = '';
+  let lastTime = 0;
+
+  // The buffer, unless the window since the last keystroke has passed
+  const liveBuffer = () => (Date.now() - lastTime > timeout ? '' : buffer);
+
+  return {
+    get buffer() {
+      return liveBuffer();
+    },
+
+    type(key: string) {
+      // Ignore named keys like 'ArrowDown'; space only extends a search
+      if (key.length !== 1) return false;
+
+      buffer = liveBuffer();
+      if (key === ' ' && buffer === '') return false;
+
+      buffer += key;
+      lastTime = Date.now();
+
+      // 'aaa' cycles through items starting with 'a'; otherwise the
+      // current item is checked first so a longer prefix can stay put
+      const cycling = [...buffer].every((char) => char === buffer[0]);
+      const from = navigator.currentIndex;
+      const idx = navigator.findNext(cycling ? buffer[0] : buffer, {
+        from: cycling ? from : from - 1,
+        wrap: true,
+        label,
+      });
+
+      if (idx !== -1) navigator.goTo(idx);
+      return true;
+    },
+
+    reset() {
+      buffer = '';
+      lastTime = 0;
+    },
+  };
+}
@@ -4,60 +4,412 @@
  */
 
 /**
- * A navigation item: either a string (leaf) or a branch with children
+ * A navigation item: a string (leaf), a leaf object carrying data, or a
+ * branch with children. `T` is the optional per-node data payload.
  */
-export type NavItem = string | NavBranch;
+export type NavItem<T = unknown> = string | NavLeaf<T> | NavBranch<T>;
 
 /**
- * A branch node with slug and children
+ * A leaf node with slug and optional data payload
  */
-export interface NavBranch {
+export interface NavLeaf<T = unknown> {
   slug: string;
-  children: NavItem[];
+  data?: T;
 }
 
+/**
+ * A branch node with slug, children and optional data payload.
+ * `children` can be a loader for trees too large to ship at once;
+ * the navigator replaces it with the resolved array once loaded.
+ */
+export interface NavBranch<T = unknown> {
+  slug: string;
+  data?: T;
+  children: NavItem<T>[] | NavLoader<T>;
+}
+
+/**
+ * Loads a branch's children on demand
+ */
+export type NavLoader<T = unknown> = () => Promise<NavItem<T>[]>;
+
+/**
+ * A slug paired with its data payload.
+ * Returned by the payload-aware stateless utilities.
+ */
+export interface NavEntry<T = unknown> {
+  slug: string;
+  data: T | undefined;
+}
+
+/**
+ * Predicate used to filter nodes: receives the slug, data payload and
+ * original item, returns true to keep the node
+ */
+export type NavPredicate<T = unknown> = (
+  slug: string,
+  data: T | undefined,
+  item: NavItem<T>
+) => boolean;
+
+/**
+ * Returns the text to match a node against, e.g. its title.
+ * Receives the same arguments as NavPredicate.
+ */
+export type NavLabel<T = unknown> = (
+  slug: string,
+  data: T | undefined,
+  item: NavItem<T>
+) => string;
+
+/**
+ * Options for navigator.findNext()
+ */
+export interface FindOptions<T = unknown> {
+  /** Flat index to search from, exclusive (default: current index) */
+  from?: number;
+
+  /** Search direction in flat order (default: 'forward') */
+  direction?: 'forward' | 'backward';
+
+  /** Continue from the other end (default: the navigator's wrap option) */
+  wrap?: boolean;
+
+  /** Text a prefix is matched against (default: the slug) */
+  label?: NavLabel<T>;
+}
+
+/**
+ * Navigator method that caused an event. Expansion, filter and tree
+ * edits can move the cursor too, so they are causes as well.
+ */
+export type NavCause =
+  | 'next'
+  | 'prev'
+  | 'nextSibling'
+  | 'prevSibling'
+  | 'parent'
+  | 'firstChild'
+  | 'lastChild'
+  | 'nthChild'
+  | 'firstSibling'
+  | 'lastSibling'
+  | 'nextAtDepth'
+  | 'prevAtDepth'
+  | 'nextAtSameDepth'
+  | 'prevAtSameDepth'
+  | 'goTo'
+  | 'goToSlug'
+  | 'goToPath'
+  | 'reset'
+  | 'back'
+  | 'forward'
+  | 'jumpToMark'
+  | 'restore'
+  | 'setFilter'
+  | 'expand'
+  | 'collapse'
+  | 'toggle'
+  | 'expandAll'
+  | 'collapseAll'
+  | 'insert'
+  | 'remove'
+  | 'move'
+  | 'rename'
+  | 'setItems'
+  | 'load';
+
+/** Direction of a move in flat order */
+export type NavDirection = 'forward' | 'backward';
+
+/**
+ * Payload of the 'change' event
+ */
+export interface NavChangeEvent<T = unknown> {
+  /** Slug and path before the move (null if there was no current node) */
+  prev: string | null;
+  prevPath: string | null;
+
+  /** Slug and path after the move (null if the list is now empty) */
+  next: string | null;
+  nextPath: string | null;
+
+  /** Flat index after the move */
+  index: number;
+
+  /** Data payload of the new current node */
+  data: T | undefined;
+
+  cause: NavCause;
+}
+
+/**
+ * Payload of the 'boundary' event: a move stopped at an end because
+ * wrap is off
+ */
+export interface NavBoundaryEvent {
+  cause: NavCause;
+  direction: NavDirection;
+  index: number;
+}
+
+/**
+ * Payload of the 'wrap' event: a move continued from the other end
+ */
+export interface NavWrapEvent {
+  cause: NavCause;
+  direction: NavDirection;
+  from: number;
+  to: number;
+}
+
+/**
+ * Payload of the 'blocked' event: a move had no target, e.g. parent()
+ * at the top level, firstChild() on a leaf, an unknown slug, or back()
+ * with nothing to go back to
+ */
+export interface NavBlockedEvent {
+  cause: NavCause;
+  index: number;
+}
+
+/**
+ * Payload of the 'load' event, fired as a lazy branch starts loading,
+ * finishes, or fails
+ */
+export interface NavLoadEvent {
+  slug: string;
+  path: string;
+  state: 'loading' | 'loaded' | 'error';
+
+  /** What the loader rejected with (state 'error' only) */
+  error?: unknown;
+}
+
+/**
+ * Events emitted by navigator.on(), keyed by name
+ */
+export interface NavEvents<T = unknown> {
+  change: NavChangeEvent<T>;
+  boundary: NavBoundaryEvent;
+  wrap: NavWrapEvent;
+  blocked: NavBlockedEvent;
+  load: NavLoadEvent;
+
+  /**
+   * Something observable may have changed: cursor, index, count,
+   * expansion, selection, history or loading. Carries no payload; read
+   * the navigator (or a store snapshot) for the new state.
+   */
+  update: void;
+}
+
+/**
+ * Order in which next()/prev() visit nodes:
+ * - 'preorder': parent before children, depth-first (default)
+ * - 'postorder': children before their parent, depth-first
+ * - 'breadth-first': level by level, all top-level nodes first
+ * - string[]: explicit sequence of paths or slugs; unlisted nodes are skipped
+ *
+ * Structural moves (parent, firstChild, siblings) follow the tree
+ * regardless of order.
+ */
+export type NavOrder = 'preorder' | 'postorder' | 'breadth-first' | string[];
+
 /**
  * Internal node with parent reference for tree navigation.
  * Used internally by buildFlatList - not exposed to consumers.
  */
-export interface InternalNode {
-  item: NavItem;
+export interface InternalNode<T = unknown> {
+  item: NavItem<T>;
   slug: string;
-  parent: InternalNode | null;
+  /**
+   * Ancestor slugs and own slug joined by '/', unique within the tree:
+   * later siblings sharing a slug get a `~1`, `~2`... suffix
+   */
+  path: string;
+  parent: InternalNode<T> | null;
+  children: InternalNode<T>[];
   depth: number;
   indexInParent: number;
 }
 
+/**
+ * A slug that appears more than once, with the path of every occurrence
+ */
+export interface DuplicateSlug {
+  slug: string;
+  paths: string[];
+}
+
+/**
+ * How createNavigator reacts to duplicate slugs:
+ * 'ignore' (default), 'warn' via console.warn, or 'throw'
+ */
+export type DuplicateSlugMode = 'ignore' | 'warn' | 'throw';
+
+/**
+ * Serializable jump list: visited node paths and the position within them.
+ * An index equal to entries.length means the cursor is past the newest entry.
+ */
+export interface HistoryState {
+  entries: string[];
+  index: number;
+}
+
+/**
+ * Options for the navigation history
+ */
+export interface HistoryConfig {
+  /** Maximum number of entries kept (default: 100) */
+  depth?: number;
+
+  /**
+   * Which moves are recorded: 'jumps' (goTo, goToSlug, goToPath, reset)
+   * or 'all' moves (default: 'jumps')
+   */
+  record?: 'jumps' | 'all';
+
+  /** State to start from, e.g. a previously saved `navigator.history` */
+  initial?: HistoryState;
+}
+
+/**
+ * JSON snapshot of navigator state, from navigator.serialize().
+ * Restoring degrades gracefully when the tree has changed since.
+ */
+export interface NavigatorState {
+  /** Format version, bumped on incompatible changes */
+  version: 1;
+
+  /** Cursor position, resolved by path, then slug, then index */
+  current: { path: string; slug: string; index: number } | null;
+
+  /**
+   * Paths of collapsed branches. Unknown paths are ignored on restore;
+   * slugs (from older snapshots) resolve to the first match.
+   */
+  collapsed: string[];
+
+  /** Jump list, when history is enabled */
+  history?: HistoryState;
+
+  /** Named marks, when any are set */
+  marks?: Record<string, { path: string; slug: string }>;
+}
+
+/**
+ * A named mark, from navigator.marks
+ */
+export interface NavMark {
+  name: string;
+  slug: string;
+
+  /** Path when the mark was set or last resolved */
+  path: string;
+
+  /** True when neither the path nor the slug exists in the tree any more */
+  stale: boolean;
+}
+
+/**
+ * Visible index range [start, end) covered by a node's subtree.
+ * Empty (start === end) when nothing in the subtree is visible.
+ */
+export interface SubtreeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Flat list of visible nodes plus lookup tables, so every navigator
+ * operation is O(1) or O(depth). Used internally - not exposed to consumers.
+ */
+export interface FlatList<T = unknown> {
+  /** Visible nodes in DFS pre-order */
+  nodes: InternalNode<T>[];
+
+  /** Flat index of the first visible node with each slug */
+  indexBySlug: Map<string, number>;
+
+  /** Flat index of each visible node by path */
+  indexByPath: Map<string, number>;
+
+  /** Flat index of each visible node */
+  indexByNode: Map<InternalNode<T>, number>;
+
+  /**
+   * Subtree range of every traversed node (hidden branches included).
+   * Contiguous in pre- and post-order; spans min to max otherwise.
+   */
+  ranges: Map<InternalNode<T>, SubtreeRange>;
+}
+
 /**
  * Navigator interface for traversing items.
  * This is what createNavigator() returns.
+ *
+ * Tree mutations (insert, remove, move) edit the item arrays in place,
+ * so `root` always reflects the current tree. The cursor stays on the
+ * current node when possible, and moves to the closest surviving
+ * neighbour when the current node is removed.
  */
-export interface Navigator {
+export interface Navigator<T = unknown> {
   /** The original items */
-  readonly root: NavItem[];
+  readonly root: NavItem<T>[];
 
   /** Current slug (null if empty) */
   readonly current: string | null;
 
-  /** Current item (string or branch) */
-  readonly currentItem: NavItem | null;
+  /** Current path, e.g. 'guides/overview' (null if empty) */
+  readonly currentPath: string | null;
+
+  /** Current item (string, leaf or branch) */
+  readonly currentItem: NavItem<T> | null;
+
+  /** Data payload of the current item (undefined if none) */
+  readonly currentData: T | undefined;
 
-  /** Flat index in DFS order (-1 if no current) */
+  /**
+   * Flat index in traversal order (-1 if no current). Counts loaded
+   * nodes only, so it shifts when a branch before the cursor loads.
+   */
   readonly currentIndex: number;
 
-  /** Total count of visitable items */
+  /**
+   * Total count of visitable items loaded so far. An unloaded branch
+   * counts as one item; its children are added once they load.
+   */
   readonly count: number;
 
-  /** Move to next item in DFS order */
+  /** Whether any lazy branch is loading */
+  readonly loading: boolean;
+
+  /**
+   * Whether an item's children are available: true for leaves and
+   * loaded branches, false for unloaded branches and unknown slugs
+   */
+  isLoaded(slug: string): boolean;
+
+  /**
+   * Load a lazy branch's children. Concurrent calls share one request;
+   * resolves immediately for loaded branches and leaves. Rejects with
+   * the loader's error, leaving the branch unloaded so it can be retried.
+   */
+  load(slug: string): Promise<void>;
+
+  /** Move to next item in traversal order */
   next(): void;
 
-  /** Move to previous item in DFS order */
+  /** Move to previous item in traversal order */
   prev(): void;
 
-  /** Skip to next sibling (or parent's next sibling if at end) */
+  /**
+   * Skip to next visible sibling (or parent's next sibling if at end)
+   */
   nextSibling(): void;
 
-  /** Skip to previous sibling */
+  /** Skip to previous visible sibling */
   prevSibling(): void;
 
   /** Go to parent node */
@@ -66,33 +418,290 @@ export interface Navigator {
   /** Go to first child (if current is a branch) */
   firstChild(): void;
 
+  /** Go to last child (if current is a branch) */
+  lastChild(): void;
+
+  /** Go to the nth child, 0-based (if it exists) */
+  nthChild(n: number): void;
+
+  /** Go to the first sibling of the current node */
+  firstSibling(): void;
+
+  /** Go to the last sibling of the current node */
+  lastSibling(): void;
+
+  /**
+   * Move to the next node at a tree depth (0 = top level), like a
+   * screen reader's "next heading level N". Respects wrap; with
+   * leavesOnly, lands on the first leaf inside that node.
+   */
+  nextAtDepth(depth: number): void;
+
+  /**
+   * Move to the previous node at a tree depth. From inside a node at
+   * that depth, first returns to the start of that node.
+   */
+  prevAtDepth(depth: number): void;
+
+  /** Move to the next node at the current node's depth */
+  nextAtSameDepth(): void;
+
+  /** Move to the previous node at the current node's depth */
+  prevAtSameDepth(): void;
+
   /** Jump to specific index */
   goTo(index: number): void;
 
-  /** Jump to specific slug */
+  /** Jump to specific slug (first match in DFS order) */
   goToSlug(slug: string): void;
 
+  /** Jump to specific path, e.g. 'guides/overview' */
+  goToPath(path: string): void;
+
   /** Reset to first item */
   reset(): void;
+
+  /**
+   * Find the next visible node matching a predicate, or whose label
+   * starts with a prefix (case-insensitive). Returns its flat index,
+   * or -1 if nothing matches. Does not move the cursor; pass the
+   * result to goTo().
+   */
+  findNext(match: NavPredicate<T> | string, options?: FindOptions<T>): number;
+
+  /** Whether back() has somewhere to go (false without history) */
+  readonly canGoBack: boolean;
+
+  /** Whether forward() has somewhere to go (false without history) */
+  readonly canGoForward: boolean;
+
+  /** Serializable copy of the navigation history */
+  readonly history: HistoryState;
+
+  /** JSON snapshot of cursor, expansion, history and marks */
+  serialize(): NavigatorState;
+
+  /**
+   * Load a snapshot from serialize(). Missing nodes are skipped and the
+   * cursor falls back to the same slug or a nearby index. Snapshots with
+   * another version or a malformed shape are ignored.
+   */
+  restore(state: NavigatorState): void;
+
+  /** Marks in name order, including stale ones */
+  readonly marks: NavMark[];
+
+  /**
+   * Remember an item under a name, like vim's m{a-z}. Marks the current
+   * item when no slug is given; ignored for unknown slugs.
+   */
+  setMark(name: string, slug?: string): void;
+
+  /**
+   * Move to a marked item, like vim's '{a-z}. Resolved by path, then
+   * slug, so it survives setItems() while the slug exists. Emits
+   * 'blocked' for unknown, stale or hidden marks.
+   */
+  jumpToMark(name: string): void;
+
+  /** Forget a mark */
+  clearMark(name: string): void;
+
+  /** Return to the previous recorded position (like vim's Ctrl+o) */
+  back(): void;
+
+  /** Undo a back() (like vim's Ctrl+i) */
+  forward(): void;
+
+  /**
+   * Replace the filter predicate (null to show everything).
+   * If the current node is filtered out, the cursor moves to the nearest
+   * remaining node and onChange fires.
+   */
+  setFilter(filter: NavPredicate<T> | null): void;
+
+  /**
+   * Listen for an event. Returns a function that removes the listener.
+   * 'change' fires whenever the current node changes, whatever the cause.
+   */
+  on<K extends keyof NavEvents<T>>(
+    event: K,
+    listener: (event: NavEvents<T>[K]) => void
+  ): () => void;
+
+  /**
+   * Slugs of expanded branches. The same array is returned until
+   * expansion or the tree changes.
+   */
+  readonly expanded: readonly string[];
+
+  /**
+   * Whether a branch is expanded (false for leaves and unknown targets).
+   * Like the other expansion methods, takes a path, or a slug that
+   * resolves to the first match.
+   */
+  isExpanded(target: string): boolean;
+
+  /** Expand a branch so its children become visitable */
+  expand(target: string): void;
+
+  /** Collapse a branch, hiding its descendants */
+  collapse(target: string): void;
+
+  /** Toggle a branch between expanded and collapsed */
+  toggle(target: string): void;
+
+  /** Expand every branch */
+  expandAll(): void;
+
+  /** Collapse every branch */
+  collapseAll(): void;
+
+  /**
+   * Selected slugs in tree order. Like `expanded`, the same array is
+   * returned until the selection or the tree changes.
+   */
+  readonly selection: readonly string[];
+
+  /** Selected paths in tree order, cached like `selection` */
+  readonly selectedPaths: readonly string[];
+
+  /** Slug that extendSelection() ranges from (null if none) */
+  readonly selectionAnchor: string | null;
+
+  /** Whether a slug is selected */
+  isSelected(slug: string): boolean;
+
+  /** Select only this item and make it the anchor (like a click) */
+  select(slug: string): void;
+
+  /** Add or remove an item and make it the anchor (like ctrl/cmd-click) */
+  toggleSelect(slug: string): void;
+
+  /**
+   * Select the visible items from one slug to another in flat order,
+   * replacing the selection. `from` becomes the anchor.
+   */
+  selectRange(from: string, to: string): void;
+
+  /**
+   * Select from the anchor to this item, keeping the anchor
+   * (like shift-click). Without an anchor, behaves like select().
+   */
+  extendSelection(slug: string): void;
+
+  /**
+   * Select an item and all of its descendants, including collapsed or
+   * filtered ones. The item becomes the anchor.
+   */
+  selectSubtree(slug: string): void;
+
+  /** Deselect everything and drop the anchor */
+  clearSelection(): void;
+
+  /**
+   * Insert an item under a branch (null for root level) at the given index.
+   * Ignored if the parent is a leaf or unknown.
+   */
+  insert(parentSlug: string | null, index: number, item: NavItem<T>): void;
+
+  /** Remove an item and its descendants */
+  remove(slug: string): void;
+
+  /** Move an item under a new parent (null for root level) at the given index */
+  move(slug: string, newParentSlug: string | null, index: number): void;
+
+  /**
+   * Change an item's slug. Paths below it change too; the cursor and
+   * selection stay on the same nodes.
+   */
+  rename(slug: string, newSlug: string): void;
+
+  /**
+   * Replace the whole tree, keeping the current node when its path
+   * (or failing that, its slug) still exists
+   */
+  setItems(items: NavItem<T>[]): void;
 }
 
 /**
  * Configuration for createNavigator
  */
-export interface NavigatorConfig {
+export interface NavigatorConfig<T = unknown> {
   /** Forest of items to navigate (supports multiple root nodes) */
-  items: NavItem[];
+  items: NavItem<T>[];
 
   /** Wrap around at ends (default: true) */
   wrap?: boolean;
 
-  /** Only stop on leaf nodes - skip branches (default: false) */
+  /**
+   * Only stop on leaf nodes - skip branches (default: false).
+   * Collapsed branches still count as stops, since they are the
+   * visible end of their subtree.
+   */
   leavesOnly?: boolean;
 
-  /** Callback on navigation */
+  /** Order next()/prev() visit nodes in (default: 'preorder') */
+  order?: NavOrder;
+
+  /**
+   * Only visit nodes matching this predicate (default: all nodes).
+   * Change it later with navigator.setFilter().
+   */
+  filter?: NavPredicate<T> | null;
+
+  /**
+   * Keep ancestors of matching nodes when filtering, so the hierarchy
+   * still makes sense (default: false)
+   */
+  keepAncestors?: boolean;
+
+  /**
+   * Initial expansion state: true expands every branch, false collapses
+   * every branch, or a list of branch paths or slugs to expand
+   * (default: true)
+   */
+  expanded?: boolean | string[];
+
+  /**
+   * Report duplicate slugs when the tree is built or replaced
+   * (default: 'ignore'). Paths stay unique (siblings sharing a slug are
+   * suffixed `~1`, `~2`...), so goToPath works regardless; slug lookups
+   * resolve to the first match.
+   */
+  duplicateSlugs?: DuplicateSlugMode;
+
+  /**
+   * Record navigation history for back()/forward().
+   * Pass true for defaults, or a HistoryConfig (default: disabled)
+   */
+  history?: boolean | HistoryConfig;
+
+  /**
+   * State to start from, e.g. from a storage adapter's load().
+   * Applied without firing callbacks; ignored like in restore() when
+   * the version or shape doesn't match.
+   */
+  initialState?: NavigatorState | null;
+
+  /**
+   * Callback on navigation, fired when the current slug changes.
+   * For more than one listener, use navigator.on('change').
+   */
   onChange?: (
     prevSlug: string | null,
     nextSlug: string | null,
-    index: number
+    index: number,
+    data: T | undefined
   ) => void;
+
+  /** Callback when a branch is expanded or collapsed */
+  onExpansionChange?: (slug: string, expanded: boolean) => void;
+
+  /**
+   * Callback when the selection changes, with the selected slugs in
+   * tree order. Separate from onChange: the cursor and the selection
+   * move independently.
+   */
+  onSelectionChange?: (selection: string[]) => void;
 }
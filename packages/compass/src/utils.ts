@@ -2,38 +2,341 @@
  * Utility functions for common navigation tasks.
  * These are stateless helpers - useful for build-time computation (SSG).
  *
- * - flattenSlugs: Get all slugs in DFS order
+ * - flattenSlugs: Get all slugs in DFS (or configured) order
+ * - flattenEntries: Get all slugs with their data payloads
  * - getNeighbors: Get prev/next for a specific slug
+ * - getNeighborEntries: Get prev/next entries (slug + data) for a specific slug
+ * - findDuplicateSlugs: Report slugs that occur more than once, with paths
+ * - getBreadcrumbs / getAncestors: The chain of parents above a slug
+ * - getDescendants / getSiblings: Related entries, in traversal order
+ * - getDepth / findBranch / getSubtree: Where a slug sits and what is under it
+ * - getSectionNeighbors: prev/next limited to the same parent
  */
 
-import type { NavItem } from './types.js';
-import { buildFlatList } from './buildFlatList.js';
+import type {
+  NavItem,
+  NavEntry,
+  NavPredicate,
+  NavOrder,
+  NavBranch,
+  InternalNode,
+  FlatList,
+  DuplicateSlug,
+} from './types.js';
+import {
+  buildFlatList,
+  buildTree,
+  flattenTree,
+  indexTree,
+  type TreeIndex,
+} from './buildFlatList.js';
+import { isBranch, getData } from './helpers.js';
 
 /**
- * Flatten items to DFS pre-order list of slugs
+ * Options shared by the flattening utilities.
+ * Mirrors the matching NavigatorConfig options, so results line up
+ * with the stateful navigator.
  */
-export function flattenSlugs(items: NavItem[], leavesOnly = false): string[] {
-  return buildFlatList(items, leavesOnly).map((n) => n.slug);
+export interface FlattenOptions<T = unknown> {
+  /** Skip branches, only consider leaves */
+  leavesOnly?: boolean;
+
+  /** Only include nodes matching this predicate */
+  filter?: NavPredicate<T> | null;
+
+  /** Keep ancestors of matching nodes when filtering */
+  keepAncestors?: boolean;
+
+  /** Traversal order (default: 'preorder') */
+  order?: NavOrder;
+}
+
+/**
+ * Flatten items to a list of slugs (DFS pre-order by default).
+ * Pass `true` as a shorthand for `{ leavesOnly: true }`.
+ */
+export function flattenSlugs<T>(
+  items: NavItem<T>[],
+  options: boolean | FlattenOptions<T> = {}
+): string[] {
+  return buildFlatList(items, toOptions(options)).nodes.map((n) => n.slug);
+}
+
+/**
+ * Flatten items to a list of entries (slug + data payload)
+ */
+export function flattenEntries<T>(
+  items: NavItem<T>[],
+  options: boolean | FlattenOptions<T> = {}
+): NavEntry<T>[] {
+  return buildFlatList(items, toOptions(options)).nodes.map(toEntry);
 }
 
 /**
- * Get prev/next slugs for a target slug.
+ * How the tree-query utilities address their target
+ */
+export interface TargetOptions {
+  /**
+   * How the target is addressed: a slug (first match) or a full path
+   * like 'guides/overview' that stays unique with duplicate slugs
+   * (default: 'slug')
+   */
+  by?: 'slug' | 'path';
+}
+
+/**
+ * Options for getNeighbors and the other utilities that depend on
+ * which nodes are visited (descendants, siblings, section neighbours)
+ */
+export interface NeighborOptions<T = unknown>
+  extends FlattenOptions<T>,
+    TargetOptions {}
+
+/**
+ * Get prev/next slugs for a target slug (or path).
  * Primary API for build-time navigation (SSG).
  */
-export function getNeighbors(
-  items: NavItem[],
-  targetSlug: string,
-  options: { leavesOnly?: boolean } = {}
+export function getNeighbors<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: NeighborOptions<T> = {}
+): { prev: string | null; next: string | null } {
+  const { prev, next } = getNeighborEntries(items, target, options);
+  return { prev: prev?.slug ?? null, next: next?.slug ?? null };
+}
+
+/**
+ * Get prev/next entries for a target slug (or path).
+ * Like getNeighbors, but includes data payloads so prev/next links
+ * can render titles without a second lookup.
+ */
+export function getNeighborEntries<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: NeighborOptions<T> = {}
+): { prev: NavEntry<T> | null; next: NavEntry<T> | null } {
+  const list = buildFlatList(items, options);
+  const { nodes } = list;
+  const index =
+    options.by === 'path'
+      ? list.indexByPath.get(target)
+      : list.indexBySlug.get(target);
+
+  if (index === undefined) {
+    return { prev: null, next: null };
+  }
+
+  return {
+    prev: index > 0 ? toEntry(nodes[index - 1]) : null,
+    next: index < nodes.length - 1 ? toEntry(nodes[index + 1]) : null,
+  };
+}
+
+/**
+ * Get the entries from the top level down to the target, target included.
+ * Returns an empty array if the target is not found.
+ */
+export function getBreadcrumbs<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: TargetOptions = {}
+): NavEntry<T>[] {
+  const node = findNode(items, target, options);
+  return node ? [...ancestorsOf(node), node].map(toEntry) : [];
+}
+
+/**
+ * Get the ancestors of the target, outermost first
+ */
+export function getAncestors<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: TargetOptions = {}
+): NavEntry<T>[] {
+  const node = findNode(items, target, options);
+  return node ? ancestorsOf(node).map(toEntry) : [];
+}
+
+/**
+ * Get every node below the target that would be visited, in traversal
+ * order. With leavesOnly, only the leaves of the subtree.
+ */
+export function getDescendants<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: NeighborOptions<T> = {}
+): NavEntry<T>[] {
+  const found = queryTree(items, target, options);
+  if (!found) return [];
+
+  const { node, list } = found;
+  return list.nodes.filter((n) => isDescendant(n, node)).map(toEntry);
+}
+
+/**
+ * Get the other children of the target's parent (top-level nodes for a
+ * top-level target), skipping siblings that would not be visited
+ */
+export function getSiblings<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: NeighborOptions<T> = {}
+): NavEntry<T>[] {
+  const found = queryTree(items, target, options);
+  if (!found) return [];
+
+  const { node, list } = found;
+  const siblings = node.parent ? node.parent.children : found.roots;
+  return siblings
+    .filter((n) => n !== node && list.indexByNode.has(n))
+    .map(toEntry);
+}
+
+/**
+ * Get the depth of the target (0 for top level), or -1 if not found
+ */
+export function getDepth<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: TargetOptions = {}
+): number {
+  return findNode(items, target, options)?.depth ?? -1;
+}
+
+/**
+ * Find the original branch item for a target, or null if the target is
+ * a leaf or not found
+ */
+export function findBranch<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: TargetOptions = {}
+): NavBranch<T> | null {
+  const item = findNode(items, target, options)?.item;
+  return item && isBranch(item) ? item : null;
+}
+
+/**
+ * Get the subtree rooted at the target as an items array, ready to pass
+ * to createNavigator or the other utilities. Empty if not found.
+ */
+export function getSubtree<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: TargetOptions = {}
+): NavItem<T>[] {
+  const node = findNode(items, target, options);
+  return node ? [node.item] : [];
+}
+
+/**
+ * Get prev/next slugs among the target's siblings, in traversal order.
+ * Unlike getNeighbors, never leaves the current section.
+ */
+export function getSectionNeighbors<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: NeighborOptions<T> = {}
 ): { prev: string | null; next: string | null } {
-  const slugs = flattenSlugs(items, options.leavesOnly);
-  const index = slugs.indexOf(targetSlug);
+  const { prev, next } = getSectionNeighborEntries(items, target, options);
+  return { prev: prev?.slug ?? null, next: next?.slug ?? null };
+}
 
-  if (index === -1) {
+/**
+ * Get prev/next entries among the target's siblings, in traversal order
+ */
+export function getSectionNeighborEntries<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: NeighborOptions<T> = {}
+): { prev: NavEntry<T> | null; next: NavEntry<T> | null } {
+  const found = queryTree(items, target, options);
+  if (!found || !found.list.indexByNode.has(found.node)) {
     return { prev: null, next: null };
   }
 
+  const { node, list } = found;
+  const section = list.nodes.filter((n) => n.parent === node.parent);
+  const index = section.indexOf(node);
+
   return {
-    prev: index > 0 ? slugs[index - 1] : null,
-    next: index < slugs.length - 1 ? slugs[index + 1] : null,
+    prev: index > 0 ? toEntry(section[index - 1]) : null,
+    next: index < section.length - 1 ? toEntry(section[index + 1]) : null,
   };
 }
+
+/**
+ * Find slugs that occur more than once, with the path of each occurrence.
+ * Useful as a build-time check before slug-based lookups become ambiguous.
+ */
+export function findDuplicateSlugs<T>(items: NavItem<T>[]): DuplicateSlug[] {
+  return indexTree(buildTree(items)).duplicates;
+}
+
+/**
+ * Resolve a target in the whole tree, visible or not
+ */
+function findNode<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: TargetOptions
+): InternalNode<T> | null {
+  return resolveTarget(indexTree(buildTree(items)), target, options);
+}
+
+/**
+ * Resolve a target and flatten the tree with the same options. The
+ * target need not be visited itself (e.g. a branch with leavesOnly),
+ * so its descendants can still be queried.
+ */
+function queryTree<T>(
+  items: NavItem<T>[],
+  target: string,
+  options: NeighborOptions<T>
+): {
+  node: InternalNode<T>;
+  roots: InternalNode<T>[];
+  list: FlatList<T>;
+} | null {
+  const roots = buildTree(items);
+  const node = resolveTarget(indexTree(roots), target, options);
+  return node ? { node, roots, list: flattenTree(roots, options) } : null;
+}
+
+function resolveTarget<T>(
+  tree: TreeIndex<T>,
+  target: string,
+  options: TargetOptions
+): InternalNode<T> | null {
+  const node =
+    options.by === 'path'
+      ? tree.nodeByPath.get(target)
+      : tree.nodeBySlug.get(target);
+  return node ?? null;
+}
+
+function ancestorsOf<T>(node: InternalNode<T>): InternalNode<T>[] {
+  const ancestors: InternalNode<T>[] = [];
+  for (let n = node.parent; n; n = n.parent) ancestors.unshift(n);
+  return ancestors;
+}
+
+function isDescendant<T>(
+  node: InternalNode<T>,
+  ancestor: InternalNode<T>
+): boolean {
+  for (let n = node.parent; n; n = n.parent) {
+    if (n === ancestor) return true;
+  }
+  return false;
+}
+
+function toOptions<T>(
+  options: boolean | FlattenOptions<T>
+): FlattenOptions<T> {
+  return typeof options === 'boolean' ? { leavesOnly: options } : options;
+}
+
+function toEntry<T>(node: InternalNode<T>): NavEntry<T> {
+  return { slug: node.slug, data: getData(node.item) };
+}
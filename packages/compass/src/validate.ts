@@ -0,0 +1,282 @@
+/**
+ * Validation and normalization for item trees loaded from JSON or YAML.
+ *
+ * - validateItems: Report malformed items with their location in the input
+ * - normalizeItems: Convert common sidebar formats into NavItem[]
+ *
+ * @example
+ * ```typescript
+ * const items = normalizeItems(yaml.parse(source));
+ * const errors = validateItems(items);
+ * if (errors.length > 0) throw new Error(formatItemErrors(errors));
+ * ```
+ */
+
+import type { NavItem, NavLoader } from './types.js';
+
+/**
+ * A problem found by validateItems
+ */
+export interface ItemError {
+  /** Where the item sits in the input, e.g. 'items[1].children[0]' */
+  location: string;
+
+  /**
+   * Slug path of the item, e.g. 'guides/install'. Falls back to the
+   * parent's path when the item's own slug is unusable (null at the root).
+   */
+  path: string | null;
+
+  message: string;
+}
+
+/**
+ * Data payload produced by normalizeItems
+ */
+export interface NormalizedData {
+  /** Display label (title, text or label in the source) */
+  title?: string;
+
+  /** Link target (link or href in the source) */
+  link?: string;
+}
+
+/**
+ * Check that input is a valid NavItem[] tree. Returns every problem
+ * found, or an empty array if the input is valid.
+ */
+export function validateItems(input: unknown): ItemError[] {
+  const errors: ItemError[] = [];
+
+  if (!Array.isArray(input)) {
+    errors.push({
+      location: 'items',
+      path: null,
+      message: `Expected an array of items, got ${describeValue(input)}`,
+    });
+    return errors;
+  }
+
+  const visit = (
+    list: unknown[],
+    location: string,
+    parentPath: string | null
+  ) => {
+    list.forEach((entry, i) => {
+      const at = `${location}[${i}]`;
+      const report = (path: string | null, message: string) =>
+        errors.push({ location: at, path, message });
+
+      if (typeof entry === 'string') {
+        if (entry.trim() === '') report(parentPath, 'Slug must not be empty');
+        return;
+      }
+
+      if (!isRecord(entry)) {
+        report(
+          parentPath,
+          `Expected a string or an object with a slug, got ${describeValue(entry)}`
+        );
+        return;
+      }
+
+      const { slug } = entry;
+      let path = parentPath;
+      if (slug === undefined) {
+        report(parentPath, 'Missing slug');
+      } else if (typeof slug !== 'string') {
+        report(parentPath, `Slug must be a string, got ${describeValue(slug)}`);
+      } else if (slug.trim() === '') {
+        report(parentPath, 'Slug must not be empty');
+      } else {
+        path = parentPath ? `${parentPath}/${slug}` : slug;
+      }
+
+      if ('children' in entry) {
+        if (Array.isArray(entry.children)) {
+          visit(entry.children, `${at}.children`, path);
+        } else if (typeof entry.children !== 'function') {
+          report(
+            path,
+            'children must be an array or a loader function, got ' +
+              describeValue(entry.children)
+          );
+        }
+      } else if ('items' in entry) {
+        report(
+          path,
+          'Unknown key "items" (use "children", or run normalizeItems first)'
+        );
+      }
+    });
+  };
+
+  visit(input, 'items', null);
+  return errors;
+}
+
+/**
+ * Format validation errors one per line, e.g. for a build log
+ */
+export function formatItemErrors(errors: ItemError[]): string {
+  return errors
+    .map(({ location, path, message }) =>
+      path ? `${location} (${path}): ${message}` : `${location}: ${message}`
+    )
+    .join('\n');
+}
+
+/**
+ * Convert common sidebar shapes into NavItem[]:
+ *
+ * - NavItem trees, passed through
+ * - `{ title, link, items }` objects (also `text`/`label`, `href`, `children`)
+ * - VitePress sidebars: `{ text, link, items, collapsed }`
+ * - Docusaurus sidebars: doc id strings, `{ type: 'doc' | 'link' | 'category' }`
+ *   and the `{ 'Category label': [...] }` shorthand
+ *
+ * Slugs come from the link, href or doc id, else a slugified label.
+ * Labels and links are kept as NormalizedData. A top-level object is
+ * read as the category shorthand. Docusaurus 'autogenerated' and 'html'
+ * entries are skipped, since they have no page to navigate to.
+ *
+ * @throws Error naming the location of an entry it can't convert
+ */
+export function normalizeItems(input: unknown): NavItem<NormalizedData>[] {
+  if (isRecord(input)) return normalizeShorthand(input, 'items');
+  if (!Array.isArray(input)) {
+    throw new Error(`Expected an array of items, got ${describeValue(input)}`);
+  }
+  return normalizeList(input, 'items');
+}
+
+function normalizeList(
+  list: unknown[],
+  location: string
+): NavItem<NormalizedData>[] {
+  return list.flatMap((entry, i) =>
+    normalizeEntry(entry, `${location}[${i}]`)
+  );
+}
+
+function normalizeEntry(
+  entry: unknown,
+  location: string
+): NavItem<NormalizedData>[] {
+  if (typeof entry === 'string') return [entry];
+  if (!isRecord(entry)) {
+    throw new Error(`Cannot normalize ${describeValue(entry)} at ${location}`);
+  }
+
+  switch (entry.type) {
+    case 'autogenerated':
+    case 'html':
+      return [];
+    case 'doc':
+    case 'ref':
+      return [toItem(text(entry.id), text(entry.label), undefined, location)];
+    case 'link':
+      return [
+        toItem(text(entry.href), text(entry.label), text(entry.href), location),
+      ];
+    case 'category': {
+      // A category can link to its own doc page
+      const link = isRecord(entry.link) ? text(entry.link.id) : undefined;
+      const children = listOf(entry.items, `${location}.items`);
+      return [toItem(link, text(entry.label), undefined, location, children)];
+    }
+  }
+
+  if (typeof entry.slug === 'string') {
+    // Lazy loaders pass through untouched
+    const children =
+      typeof entry.children === 'function'
+        ? (entry.children as NavLoader<NormalizedData>)
+        : listOf(entry.children, `${location}.children`);
+    const item: NavItem<NormalizedData> = children
+      ? { slug: entry.slug, children }
+      : { slug: entry.slug };
+    if (isRecord(entry.data)) item.data = entry.data as NormalizedData;
+    return [item];
+  }
+
+  const title = text(entry.title) ?? text(entry.text) ?? text(entry.label);
+  const link = text(entry.link) ?? text(entry.href);
+  if (title !== undefined || link !== undefined) {
+    const children =
+      listOf(entry.items, `${location}.items`) ??
+      listOf(entry.children, `${location}.children`);
+    return [toItem(link ?? text(entry.id), title, link, location, children)];
+  }
+
+  return normalizeShorthand(entry, location);
+}
+
+/**
+ * Docusaurus shorthand: each key is a category label, each value its items
+ */
+function normalizeShorthand(
+  record: Record<string, unknown>,
+  location: string
+): NavItem<NormalizedData>[] {
+  return Object.entries(record).map(([label, items]) => {
+    const at = `${location}.${label}`;
+    const children = listOf(items, at);
+    if (!children) {
+      throw new Error(`Cannot normalize ${describeValue(items)} at ${at}`);
+    }
+    return toItem(undefined, label, undefined, at, children);
+  });
+}
+
+function toItem(
+  slug: string | undefined,
+  title: string | undefined,
+  link: string | undefined,
+  location: string,
+  children?: NavItem<NormalizedData>[]
+): NavItem<NormalizedData> {
+  const resolved = slug ?? (title !== undefined ? slugify(title) : '');
+  if (resolved === '') {
+    throw new Error(`Cannot derive a slug at ${location}`);
+  }
+
+  const data: NormalizedData = {};
+  if (title !== undefined) data.title = title;
+  if (link !== undefined) data.link = link;
+
+  const item: NavItem<NormalizedData> = children
+    ? { slug: resolved, children }
+    : { slug: resolved };
+  if (Object.keys(data).length > 0) item.data = data;
+  return item;
+}
+
+function listOf(
+  value: unknown,
+  location: string
+): NavItem<NormalizedData>[] | undefined {
+  return Array.isArray(value) ? normalizeList(value, location) : undefined;
+}
+
+function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Vue bindings. Import from '@bearing-dev/compass/vue'.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * const { state, next, prev } = useNavigator({ items });
+ * </script>
+ *
+ * <template>
+ *   <p>{{ state.current }}</p>
+ *   <button @click="next">Next</button>
+ * </template>
+ * ```
+ */
+
+import { getCurrentScope, onScopeDispose, readonly, shallowRef } from 'vue';
+import type { ShallowRef } from 'vue';
+import { createNavigator } from './navigator.js';
+import { bindMoves, getNavigatorStore } from './store.js';
+import type { NavigatorMoves, NavigatorSnapshot } from './store.js';
+import type { Navigator, NavigatorConfig } from './types.js';
+
+/**
+ * What the composables return: a read-only ref of the current snapshot,
+ * the bound move methods and the navigator itself
+ */
+export type NavigatorComposable<T = unknown> = NavigatorMoves<T> & {
+  state: Readonly<ShallowRef<NavigatorSnapshot<T>>>;
+  navigator: Navigator<T>;
+};
+
+/**
+ * Create a navigator and track its state in a ref
+ */
+export function useNavigator<T>(
+  config: NavigatorConfig<T>
+): NavigatorComposable<T> {
+  return useNavigatorState(createNavigator(config));
+}
+
+/**
+ * Track a navigator created elsewhere, e.g. provided by a parent.
+ * Unsubscribes when the calling component or effect scope is disposed.
+ */
+export function useNavigatorState<T>(
+  navigator: Navigator<T>
+): NavigatorComposable<T> {
+  const store = getNavigatorStore(navigator);
+  const state = shallowRef(store.getSnapshot());
+  const unsubscribe = store.subscribe(() => {
+    state.value = store.getSnapshot();
+  });
+  if (getCurrentScope()) onScopeDispose(unsubscribe);
+
+  return {
+    ...bindMoves(navigator),
+    state: readonly(state) as Readonly<ShallowRef<NavigatorSnapshot<T>>>,
+    navigator,
+  };
+}
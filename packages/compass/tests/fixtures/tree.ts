@@ -0,0 +1,23 @@
+/**
+ * Generated trees shared by compass.bench.ts and complexity.test.ts, so
+ * the benchmarks and the complexity guard measure the same shape.
+ */
+
+import type { NavItem } from '../../src/types.js';
+
+/**
+ * Sidebar-shaped tree: sections of pages, every section with an
+ * `overview` page so duplicate slugs are exercised too.
+ */
+export function makeTree(sections: number, pagesPerSection: number): NavItem[] {
+  return Array.from({ length: sections }, (_, s) => ({
+    slug: `section-${s}`,
+    children: [
+      'overview',
+      ...Array.from(
+        { length: pagesPerSection - 1 },
+        (_, p) => `page-${s}-${p}`
+      ),
+    ],
+  }));
+}
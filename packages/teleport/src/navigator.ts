@@ -192,14 +192,17 @@ export function createTeleport(config: CreateTeleportConfig): TeleportInstance {
       return el.getAttribute(idAttribute) || el.id || `item-${index}`;
     });
 
-    // Create Compass navigator from slugs
+    // Update the existing navigator in place so position survives rescans
     const items: NavItem[] = slugs;
-    navigator = createNavigator({
-      items,
-      wrap,
-      onChange: (_prev: string | null, _next: string | null, index: number) => {
-        updateHighlight(index);
-      },
+    if (navigator) {
+      navigator.setItems(items);
+      return;
+    }
+
+    // Create Compass navigator from slugs
+    navigator = createNavigator({ items, wrap });
+    navigator.on('change', ({ index }) => {
+      updateHighlight(index);
     });
   }
 
@@ -330,12 +333,8 @@ export function createTeleport(config: CreateTeleportConfig): TeleportInstance {
     },
 
     refresh(): void {
-      const currentSlug = navigator?.current;
+      // setItems keeps the current slug when it is still on the page
       scanDOM();
-      // Try to restore position
-      if (currentSlug && navigator) {
-        navigator.goToSlug(currentSlug);
-      }
     },
 
     destroy(): void {